@@ -0,0 +1,26 @@
+/**
+ * Node entry point for the command-line optimizer (see src/cli.ts).
+ *   yarn -s optimize planner.json --beam-width 20000 --results 10
+ */
+import { runCli } from "../src/cli";
+
+// The installed @types/node needs a newer TypeScript, so declare the little
+// of Node used here.
+declare const process: {
+  argv: string[];
+  stdout: { write(text: string): void };
+  stderr: { write(text: string): void };
+  exitCode?: number;
+};
+declare function require(id: "fs"): {
+  readFileSync(path: string, encoding: "utf8"): string;
+};
+
+const { readFileSync } = require("fs");
+
+const { code, stdout, stderr } = runCli(process.argv.slice(2), (path) =>
+  readFileSync(path, "utf8")
+);
+process.stdout.write(stdout);
+process.stderr.write(stderr);
+process.exitCode = code;
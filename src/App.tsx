@@ -1,317 +1,262 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useReducer, useRef, useState } from "react";
+import {
+  BUFF_CATALOG,
+  canonicalBuffName,
+  formatBuffValue,
+  lookupBuff,
+} from "./buffCatalog";
+import {
+  BuffLine,
+  Character,
+  Item,
+  Loadout,
+  Rarity,
+  SLOTS,
+  SLOT_TYPES,
+  SlotKey,
+  SlotType,
+  Targets,
+  canonicalizeItem,
+  emptyEquipped,
+  fitsSlot,
+  normalizeBuffName,
+  placeItems,
+  sameItem,
+  uid,
+} from "./model";
+import {
+  DEFAULT_SCORING,
+  OPTIMIZER_MODES,
+  OptimizeProgress,
+  OptimizeResult,
+  OptimizerMode,
+  OptimizerRequest,
+  OptimizerResponse,
+  SCORING_PRESETS,
+  ScoringConfig,
+  ScoringWeightKey,
+  buildKey,
+  optimize,
+  sanitizeScoring,
+  scoreBuild,
+} from "./optimizer";
+import { parseBulkItems } from "./bulkImport";
+import { GEAR_SETS, activeSets, lookupGearSet } from "./gearSets";
+import { SalvageCandidate, SalvageProgress, salvageSearch } from "./salvage";
+import { RerollEstimate, RerollProgress, rerollSearch } from "./reroll";
+import { rollQuality } from "./rollRanges";
+import { deficitsCsv, inventoryCsv, totalsCsv } from "./csvExport";
+import {
+  BuildComparison,
+  DeficitRow,
+  SwapOption,
+  compareBuilds,
+  computeDeficits,
+  farmingTargets,
+  parseTargetsFromText,
+  projectRank,
+  rankSwaps,
+  sumBuffs,
+  targetsToText,
+  totalsOf,
+  withDerived,
+} from "./engine";
+import {
+  compileFormulas,
+  derivedToText,
+  formulasOf,
+  mergeDerived,
+  parseDerivedText,
+} from "./formulas";
+import {
+  LoadResult,
+  PlannerState,
+  clearHistory,
+  historyPersisted,
+  loadHistory,
+  loadPersisted,
+  saveHistory,
+  savePersisted,
+} from "./persistence";
+import {
+  PlannerAction,
+  PlannerData,
+  createHistory,
+  historyReducer,
+  plannerReducer,
+} from "./plannerState";
+import {
+  CollisionPolicy,
+  ImportMode,
+  exportFileName,
+  exportState,
+  parseImport,
+  planImport,
+} from "./transfer";
+import {
+  DEFAULT_SCALING,
+  MAX_LEVEL,
+  MAX_RANK,
+  RARITIES,
+  ScalingTable,
+  effectiveValue,
+  sameScaling,
+  scaleFactor,
+  scalingLabel,
+} from "./scaling";
+import {
+  SharedBuild,
+  decodeSharedBuild,
+  sharePayloadFromHash,
+  shareUrl,
+} from "./shareLink";
 
 /**
  * Where Winds Meet – Gear Buff Calculator + Inventory Optimizer
- * Single-file React app (works in Vite / CRA / Next client component).
+ * React app (works in Vite / CRA / Next client component).
+ * Data model lives in model.ts; scoring and search in optimizer.ts, which also
+ * runs inside optimizer.worker.ts so large searches don't block the page.
  * - 8 gear slots
- * - Create unlimited items with 5–6 buff lines
+ * - Create unlimited items with 5–6 buff lines, or bulk import them from
+ *   text / CSV (bulkImport.ts)
  * - Equip 8 items and aggregate buffs (same buff names sum)
  * - Define Necessary Buff Targets and compare current totals vs targets
  * - Optimizer: picks 8 items (one per slot) that best meet targets and then maximizes recommended lines
- * - Persists to localStorage
+ *   (beam search by default, or exact branch-and-bound that proves optimality within a budget)
+ * - Persists to localStorage (versioned, see persistence.ts); JSON backup
+ *   export/import in transfer.ts
+ * - Share a loadout as a link (shareLink.ts); opening it shows a read-only view
  */
 
-// -----------------------------
-// Types
-// -----------------------------
-
-type SlotKey =
-  | "Weapon 1"
-  | "Weapon 2"
-  | "Support 1"
-  | "Support 2"
-  | "Helmet"
-  | "Vest"
-  | "Arms"
-  | "Legs";
-
-const SLOTS: SlotKey[] = [
-  "Weapon 1",
-  "Weapon 2",
-  "Support 1",
-  "Support 2",
-  "Helmet",
-  "Vest",
-  "Arms",
-  "Legs",
-];
-
-type BuffLine = {
-  id: string;
-  name: string; // e.g., "Momentum"
-  value: number; // e.g., 15
-  recommended: boolean; // if the game flags this as a recommended line
-};
-
-type Item = {
-  id: string;
-  name: string;
-  slot: SlotKey;
-  buffs: BuffLine[];
-};
-
-type Targets = Record<string, number>; // buffName -> required value
-
-type Equipped = Record<SlotKey, string | null>; // slot -> itemId
-
 // -----------------------------
 // Utilities
 // -----------------------------
 
-function uid(prefix = "id") {
-  return `${prefix}_${Math.random()
-    .toString(16)
-    .slice(2)}_${Date.now().toString(16)}`;
-}
-
-function clampInt(n: number, min = 0, max = 1e9) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.trunc(n)));
-}
-
-function normalizeBuffName(name: string) {
-  return name.trim();
+function createLoadout(name: string): Loadout {
+  return {
+    id: uid("lo"),
+    name,
+    equipped: emptyEquipped(),
+    targets: {},
+    locked: {},
+  };
 }
 
-function sumBuffs(
-  items: Item[]
-): Record<string, { total: number; recommendedLines: number; lines: number }> {
-  const map: Record<
-    string,
-    { total: number; recommendedLines: number; lines: number }
-  > = {};
-  for (const it of items) {
-    for (const b of it.buffs) {
-      const key = normalizeBuffName(b.name);
-      if (!key) continue;
-      if (!map[key]) map[key] = { total: 0, recommendedLines: 0, lines: 0 };
-      map[key].total += Number(b.value) || 0;
-      map[key].lines += 1;
-      if (b.recommended) map[key].recommendedLines += 1;
-    }
-  }
-  return map;
+function createCharacter(name: string): Character {
+  const loadout = createLoadout("Default");
+  return {
+    id: uid("ch"),
+    name,
+    loadouts: [loadout],
+    activeLoadoutId: loadout.id,
+  };
 }
 
-function computeDeficits(totals: Record<string, number>, targets: Targets) {
-  const rows = Object.entries(targets)
-    .filter(([k]) => normalizeBuffName(k))
-    .map(([name, required]) => {
-      const key = normalizeBuffName(name);
-      const req = Number(required) || 0;
-      const cur = Number(totals[key] ?? 0) || 0;
-      const diff = cur - req;
-      return {
-        name: key,
-        current: cur,
-        required: req,
-        diff,
-        missing: Math.max(0, -diff),
-      };
-    })
-    .sort((a, b) => b.missing - a.missing || a.name.localeCompare(b.name));
-  const totalMissing = rows.reduce((acc, r) => acc + r.missing, 0);
-  return { rows, totalMissing };
+function duplicateLoadout(l: Loadout): Loadout {
+  return {
+    ...l,
+    id: uid("lo"),
+    name: `${l.name} (copy)`,
+    equipped: { ...l.equipped },
+    targets: { ...l.targets },
+    locked: { ...l.locked },
+  };
 }
 
-function parseTargetsFromText(text: string): Targets {
-  // Supports:
-  // Momentum: 100
-  // Momentum 100
-  // Crit Rate = 25
-  // One per line.
-  const targets: Targets = {};
-  for (const rawLine of text.split("\n")) {
-    const line = rawLine.trim();
-    if (!line) continue;
-    const m = line.match(/^(.+?)(?:\s*[:=]\s*|\s+)(-?\d+(?:\.\d+)?)\s*$/);
-    if (!m) continue;
-    const name = normalizeBuffName(m[1]);
-    const val = Number(m[2]);
-    if (!name || !Number.isFinite(val)) continue;
-    targets[name] = val;
-  }
-  return targets;
+function duplicateCharacter(c: Character): Character {
+  const loadouts = c.loadouts.map((l) => ({
+    ...duplicateLoadout(l),
+    name: l.name,
+  }));
+  const activeIndex = c.loadouts.findIndex((l) => l.id === c.activeLoadoutId);
+  return {
+    id: uid("ch"),
+    name: `${c.name} (copy)`,
+    loadouts,
+    activeLoadoutId: loadouts[Math.max(0, activeIndex)].id,
+  };
 }
 
-function targetsToText(targets: Targets) {
-  return Object.entries(targets)
-    .sort((a, b) => a[0].localeCompare(b[0]))
-    .map(([k, v]) => `${k}: ${v}`)
-    .join("\n");
+function downloadText(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
 }
 
-// -----------------------------
-// Optimizer
-// -----------------------------
+// Max time spent stepping a search on the page before letting it repaint.
+const SLICE_MS = 50;
 
 /**
- * Heuristic score:
- * - Large penalty for any remaining deficit vs targets
- * - Then reward recommended lines
- * - Then reward total contribution to targeted buffs
+ * Steps a search in time slices on the page's thread, like the optimizer
+ * worker does, so the page stays responsive; it stops quietly once
+ * `current` says the run was cancelled or went stale.
  */
-function scoreBuild(items: Item[], targets: Targets) {
-  const totals: Record<string, number> = {};
-  let recommendedLines = 0;
-  let totalLines = 0;
-  for (const it of items) {
-    for (const b of it.buffs) {
-      const key = normalizeBuffName(b.name);
-      if (!key) continue;
-      totals[key] = (totals[key] ?? 0) + (Number(b.value) || 0);
-      totalLines += 1;
-      if (b.recommended) recommendedLines += 1;
+function runInSlices<P, R>(
+  search: Generator<P, R, void>,
+  current: () => boolean,
+  onProgress: (progress: P) => void,
+  onDone: (result: R) => void
+) {
+  const pump = () => {
+    if (!current()) return;
+    const sliceStart = Date.now();
+    let step = search.next();
+    while (!step.done && Date.now() - sliceStart < SLICE_MS) {
+      step = search.next();
     }
-  }
-
-  // Deficit penalty: quadratic-ish to heavily prefer meeting requirements.
-  let deficitPenalty = 0;
-  let totalMissing = 0;
-  for (const [name, reqRaw] of Object.entries(targets)) {
-    const key = normalizeBuffName(name);
-    const req = Number(reqRaw) || 0;
-    if (!key || req <= 0) continue;
-    const cur = Number(totals[key] ?? 0) || 0;
-    const missing = Math.max(0, req - cur);
-    totalMissing += missing;
-    deficitPenalty += missing * missing;
-  }
-
-  // Targeted contribution: sum of amounts on targeted buffs only.
-  let targetedContribution = 0;
-  const targetKeys = new Set(Object.keys(targets).map(normalizeBuffName));
-  for (const [k, v] of Object.entries(totals)) {
-    if (targetKeys.has(k)) targetedContribution += v;
-  }
-
-  // Final score: higher is better.
-  // If deficits exist, the penalty dominates, forcing builds that meet targets when possible.
-  const score =
-    -deficitPenalty * 1000 + // dominate
-    recommendedLines * 50 +
-    targetedContribution * 2 +
-    totalLines * 0.1;
-
-  return { score, deficitPenalty, totalMissing, recommendedLines, totals };
-}
-
-function perItemHeuristic(item: Item, targets: Targets) {
-  const targetKeys = new Set(Object.keys(targets).map(normalizeBuffName));
-  let targeted = 0;
-  let rec = 0;
-  for (const b of item.buffs) {
-    const key = normalizeBuffName(b.name);
-    if (!key) continue;
-    if (targetKeys.has(key)) targeted += Number(b.value) || 0;
-    if (b.recommended) rec += 1;
-  }
-  return rec * 10 + targeted; // quick filter only
+    if (step.done) {
+      onDone(step.value);
+      return;
+    }
+    onProgress(step.value);
+    setTimeout(pump, 0);
+  };
+  pump();
 }
 
-/**
- * Beam-search optimizer.
- * - For each slot, pre-sort candidate items by heuristic and keep top K
- * - Expand slot-by-slot, keeping top BEAM partial builds
- */
-function optimize(
-  items: Item[],
-  targets: Targets,
-  opts?: { topKPerSlot?: number; beamWidth?: number }
-) {
-  const topKPerSlot = opts?.topKPerSlot ?? 50;
-  const beamWidth = opts?.beamWidth ?? 2500;
-
-  const bySlot: Record<SlotKey, Item[]> = Object.fromEntries(
-    SLOTS.map((s) => [s, []])
-  ) as any;
-  for (const it of items) bySlot[it.slot].push(it);
-
-  // If some slots have no items, optimization cannot fill all.
-  const missingSlots = SLOTS.filter((s) => bySlot[s].length === 0);
-
-  // Pre-prune and sort candidates.
-  for (const s of SLOTS) {
-    bySlot[s] = bySlot[s]
-      .slice()
-      .sort(
-        (a, b) => perItemHeuristic(b, targets) - perItemHeuristic(a, targets)
-      )
-      .slice(0, topKPerSlot);
-  }
-
-  type Partial = {
-    chosen: Item[];
-    slotsFilled: number;
-    approxScore: number;
+function emptyPlannerData(): PlannerData {
+  const main = createCharacter("Main");
+  return {
+    items: [],
+    characters: [main],
+    activeCharacterId: main.id,
+    scoring: DEFAULT_SCORING,
   };
+}
 
-  let beam: Partial[] = [{ chosen: [], slotsFilled: 0, approxScore: 0 }];
-
-  for (const slot of SLOTS) {
-    const candidates = bySlot[slot];
-    if (candidates.length === 0) continue;
-
-    const next: Partial[] = [];
-    for (const p of beam) {
-      for (const cand of candidates) {
-        const chosen = [...p.chosen, cand];
-        // Approx score using full score on partial (good enough for beam)
-        const s = scoreBuild(chosen, targets);
-        next.push({
-          chosen,
-          slotsFilled: p.slotsFilled + 1,
-          approxScore: s.score,
-        });
-      }
-    }
-
-    next.sort((a, b) => b.approxScore - a.approxScore);
-    beam = next.slice(0, beamWidth);
-  }
+function formatTargetRange(min: number, max: number | null) {
+  if (max === null) return `${min}`;
+  if (!min) return `≤ ${max}`;
+  return `${min}–${max}`;
+}
 
-  // Best among beam.
-  const best = beam[0]?.chosen ?? [];
-  const bestScore = scoreBuild(best, targets);
+function formatTargetDelta(r: { diff: number; waste: number }) {
+  if (r.waste > 0) return `+${r.diff} (${r.waste} over cap)`;
+  return r.diff >= 0 ? `+${r.diff}` : `${r.diff}`;
+}
 
-  return {
-    best,
-    bestScore,
-    missingSlots,
-    searched: { topKPerSlot, beamWidth, beamSizeFinal: beam.length },
-  };
+function formatSigned(n: number, digits = 0) {
+  const s = n.toFixed(digits);
+  return n > 0 ? `+${s}` : s;
 }
 
-// -----------------------------
-// Local Storage
-// -----------------------------
+/** Share in [0, 1] as a whole percentage. */
+function formatShare(share: number) {
+  return `${Math.round(share * 100)}%`;
+}
 
-const LS_KEY = "wwm_build_planner_v1";
-
-type Persisted = {
-  items: Item[];
-  equipped: Equipped;
-  targets: Targets;
-};
-
-function loadState(): Persisted | null {
-  try {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== "object") return null;
-    return parsed as Persisted;
-  } catch {
-    return null;
-  }
+/** Fraction as a percentage without float noise (0.07 -> 7). */
+function percentOf(fraction: number) {
+  return Math.round(fraction * 1e6) / 1e4;
 }
 
-function saveState(st: Persisted) {
-  try {
-    localStorage.setItem(LS_KEY, JSON.stringify(st));
-  } catch {
-    // ignore
-  }
+function targetDeltaClass(r: { missing: number; waste: number }) {
+  if (r.missing > 0) return "text-red-600";
+  if (r.waste > 0) return "text-amber-600";
+  return "text-gray-800";
 }
 
 // -----------------------------
@@ -326,6 +271,17 @@ function Pill({ children }: { children: React.ReactNode }) {
   );
 }
 
+/** Where a line's base value sits in its roll range; nothing if unknown. */
+function RollQuality({ slot, line }: { slot: SlotType; line: BuffLine }) {
+  const q = rollQuality(slot, line);
+  if (q === null) return null;
+  return (
+    <span className="text-gray-400" title="Roll quality">
+      {formatShare(q)}
+    </span>
+  );
+}
+
 function Section({
   title,
   right,
@@ -349,15 +305,18 @@ function Section({
 function TextButton({
   children,
   onClick,
+  disabled,
 }: {
   children: React.ReactNode;
   onClick: () => void;
+  disabled?: boolean;
 }) {
   return (
     <button
       type="button"
       onClick={onClick}
-      className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 active:bg-gray-100"
+      disabled={disabled}
+      className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 active:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50"
     >
       {children}
     </button>
@@ -389,16 +348,19 @@ function Input({
   value,
   onChange,
   placeholder,
+  list,
 }: {
   value: string;
   onChange: (v: string) => void;
   placeholder?: string;
+  list?: string; // id of a <datalist> for autocomplete
 }) {
   return (
     <input
       value={value}
       onChange={(e) => onChange(e.target.value)}
       placeholder={placeholder}
+      list={list}
       className="w-full rounded-xl border px-3 py-2 text-sm"
     />
   );
@@ -424,19 +386,289 @@ function NumberInput({
   );
 }
 
+function BuffTotalsTable({ totals }: { totals: Record<string, number> }) {
+  return (
+    <div className="max-h-64 overflow-auto rounded-xl border">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-white">
+          <tr className="border-b">
+            <th className="px-3 py-2 text-left font-medium">Buff</th>
+            <th className="px-3 py-2 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(totals)
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .map(([k, v]) => {
+              const cap = lookupBuff(k)?.cap;
+              const overCap = cap !== undefined && v > cap;
+              return (
+                <tr key={k} className="border-b last:border-b-0">
+                  <td className="px-3 py-2">{k}</td>
+                  <td
+                    className={
+                      "px-3 py-2 text-right " +
+                      (overCap ? "text-amber-600" : "")
+                    }
+                    title={
+                      overCap
+                        ? `Above the in-game cap of ${formatBuffValue(k, cap!)}`
+                        : undefined
+                    }
+                  >
+                    {formatBuffValue(k, v)}
+                  </td>
+                </tr>
+              );
+            })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function DeficitsTable({ rows }: { rows: DeficitRow[] }) {
+  return (
+    <div className="max-h-64 overflow-auto rounded-xl border">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-white">
+          <tr className="border-b">
+            <th className="px-3 py-2 text-left font-medium">Buff</th>
+            <th className="px-3 py-2 text-right font-medium">Current</th>
+            <th className="px-3 py-2 text-right font-medium">Required</th>
+            <th className="px-3 py-2 text-right font-medium">Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.name} className="border-b last:border-b-0">
+              <td className="px-3 py-2">
+                {r.name}
+                {r.weight !== 1 && (
+                  <span className="ml-1 text-xs text-gray-500">
+                    ×{r.weight}
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right">{r.current}</td>
+              <td className="px-3 py-2 text-right">
+                {formatTargetRange(r.required, r.max)}
+              </td>
+              <td className={"px-3 py-2 text-right " + targetDeltaClass(r)}>
+                {formatTargetDelta(r)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function formatNumber(n: number) {
+  return Number.isInteger(n) ? `${n}` : n.toFixed(1);
+}
+
+function BuildComparisonView({
+  cmp,
+  labelA,
+  labelB,
+}: {
+  cmp: BuildComparison;
+  labelA: string;
+  labelB: string;
+}) {
+  const th = "px-3 py-2 font-medium";
+  const td = "px-3 py-2";
+  return (
+    <div className="space-y-3">
+      <div className="overflow-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className={th + " text-left"}>Slot</th>
+              <th className={th + " text-left"}>{labelA}</th>
+              <th className={th + " text-left"}>{labelB}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cmp.slots.map((s) => (
+              <tr
+                key={s.slot}
+                className={
+                  "border-b last:border-b-0 " + (s.changed ? "bg-amber-50" : "")
+                }
+              >
+                <td className={td + " text-gray-600"}>{s.slot}</td>
+                <td className={td}>{s.a?.name ?? "(none)"}</td>
+                <td className={td + (s.changed ? " font-medium" : "")}>
+                  {s.b?.name ?? "(none)"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {cmp.buffs.length > 0 && (
+        <div className="max-h-72 overflow-auto rounded-xl border">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="border-b">
+                <th className={th + " text-left"}>Buff</th>
+                <th className={th + " text-right"}>{labelA}</th>
+                <th className={th + " text-right"}>{labelB}</th>
+                <th className={th + " text-right"}>Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cmp.buffs.map((r) => (
+                <tr
+                  key={r.name}
+                  className={
+                    "border-b last:border-b-0 " +
+                    (r.regression ? "bg-red-50" : "")
+                  }
+                  title={
+                    r.regression
+                      ? `${labelB} is further from the ${r.name} target`
+                      : undefined
+                  }
+                >
+                  <td className={td}>
+                    {r.name}
+                    {r.targeted && (
+                      <span className="ml-1 text-xs text-gray-500">
+                        targeted
+                      </span>
+                    )}
+                  </td>
+                  <td className={td + " text-right"}>
+                    {formatBuffValue(r.name, r.a)}
+                  </td>
+                  <td className={td + " text-right"}>
+                    {formatBuffValue(r.name, r.b)}
+                  </td>
+                  <td
+                    className={
+                      td +
+                      " text-right " +
+                      (r.regression
+                        ? "text-red-600"
+                        : r.delta !== 0
+                        ? "text-gray-800"
+                        : "text-gray-400")
+                    }
+                  >
+                    {r.delta === 0 ? "—" : formatSigned(r.delta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {cmp.deficits.length > 0 && (
+        <div className="overflow-auto rounded-xl border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className={th + " text-left"}>Target</th>
+                <th className={th + " text-right"}>Required</th>
+                <th className={th + " text-right"}>{labelA}</th>
+                <th className={th + " text-right"}>{labelB}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cmp.deficits.map((d) => (
+                <tr key={d.name} className="border-b last:border-b-0">
+                  <td className={td}>{d.name}</td>
+                  <td className={td + " text-right"}>
+                    {formatTargetRange(d.a.required, d.a.max)}
+                  </td>
+                  <td className={td + " text-right " + targetDeltaClass(d.a)}>
+                    {formatTargetDelta(d.a)}
+                  </td>
+                  <td className={td + " text-right " + targetDeltaClass(d.b)}>
+                    {formatTargetDelta(d.b)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="overflow-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className={th + " text-left"}>Scoring</th>
+              <th className={th + " text-right"}>{labelA}</th>
+              <th className={th + " text-right"}>{labelB}</th>
+              <th className={th + " text-right"}>Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cmp.components.map((c) => (
+              <tr key={c.key} className="border-b last:border-b-0">
+                <td className={td}>{c.label}</td>
+                <td className={td + " text-right"}>{formatNumber(c.a)}</td>
+                <td className={td + " text-right"}>{formatNumber(c.b)}</td>
+                <td
+                  className={
+                    td +
+                    " text-right " +
+                    (c.better === null
+                      ? "text-gray-400"
+                      : c.better
+                      ? "text-green-700"
+                      : "text-red-600")
+                  }
+                >
+                  {c.better === null ? "—" : formatSigned(c.delta, 1)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const SCORING_FIELDS: { key: ScoringWeightKey; label: string }[] = [
+  { key: "deficitWeight", label: "Deficit weight" },
+  { key: "deficitExponent", label: "Deficit exponent" },
+  { key: "wasteWeight", label: "Over-cap weight" },
+  { key: "recommendedWeight", label: "★ line weight" },
+  { key: "targetedWeight", label: "Targeted weight" },
+  { key: "lineWeight", label: "Any line weight" },
+];
+
 // -----------------------------
 // Main App
 // -----------------------------
 
 export default function App() {
-  const [items, setItems] = useState<Item[]>([]);
-  const [equipped, setEquipped] = useState<Equipped>(
-    () => Object.fromEntries(SLOTS.map((s) => [s, null])) as Equipped
+  // Planner data lives in an undoable reducer (plannerState.ts); every change
+  // is dispatched as an action.
+  const [history, dispatch] = useReducer(historyReducer, undefined, () =>
+    createHistory(emptyPlannerData())
   );
-  const [targets, setTargets] = useState<Targets>({});
+  const { items, characters, activeCharacterId, scoring } = history.present;
+
+  // Active character / loadout (falls back to the first of each)
+  const character =
+    characters.find((c) => c.id === activeCharacterId) ?? characters[0];
+  const loadout =
+    character.loadouts.find((l) => l.id === character.activeLoadoutId) ??
+    character.loadouts[0];
+  const { equipped, targets, locked } = loadout;
 
   // Inventory UI state
-  const [slotFilter, setSlotFilter] = useState<SlotKey | "All">("All");
+  const [slotFilter, setSlotFilter] = useState<SlotType | "All">("All");
   const [search, setSearch] = useState<string>("");
 
   // Item editor state
@@ -447,34 +679,425 @@ export default function App() {
   );
 
   const [draftName, setDraftName] = useState<string>("");
-  const [draftSlot, setDraftSlot] = useState<SlotKey>("Weapon 1");
+  const [draftSlot, setDraftSlot] = useState<SlotType>("Weapon");
   const [draftBuffs, setDraftBuffs] = useState<BuffLine[]>([]);
+  const [draftExcluded, setDraftExcluded] = useState<boolean>(false);
+  const [draftSet, setDraftSet] = useState<string>(""); // "" = no set
+  const [draftRarity, setDraftRarity] = useState<Rarity | "">("");
+  const [draftLevel, setDraftLevel] = useState<string>(""); // "" = unset
+  const [draftRank, setDraftRank] = useState<string>("");
 
   const [targetsText, setTargetsText] = useState<string>("");
+  const [derivedText, setDerivedText] = useState<string>("");
+
+  // Bulk import state
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [bulkText, setBulkText] = useState<string>("");
+  const bulkResult = useMemo(
+    () => (bulkText.trim() ? parseBulkItems(bulkText) : null),
+    [bulkText]
+  );
+  const bulkErrors =
+    bulkResult?.messages.filter((m) => m.level === "error").length ?? 0;
+
+  // Salvage analysis; cleared whenever the inventory or loadouts change.
+  const [salvageOpen, setSalvageOpen] = useState(false);
+  const [salvage, setSalvage] = useState<SalvageCandidate[] | null>(null);
+  const [salvageSelected, setSalvageSelected] = useState<string[]>([]);
+  const [salvageRun, setSalvageRun] = useState<SalvageProgress | null>(null);
+  const salvageRunRef = useRef(0); // bumping it drops the running analysis
+  useEffect(() => {
+    salvageRunRef.current++;
+    setSalvageRun(null);
+    setSalvage(null);
+  }, [items, characters, scoring]);
+
+  // Shared build from the URL fragment, shown read-only instead of the planner
+  const [shared, setShared] = useState<SharedBuild | null>(null);
+  const [sharedError, setSharedError] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const read = () => {
+      const payload = sharePayloadFromHash(window.location.hash);
+      setShared(null);
+      setSharedError(null);
+      if (payload === null) return;
+      try {
+        setShared(decodeSharedBuild(payload));
+      } catch (err) {
+        setSharedError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    read();
+    window.addEventListener("hashchange", read);
+    return () => window.removeEventListener("hashchange", read);
+  }, []);
+
+  const sharedTotals = useMemo(
+    () => totalsOf(shared?.items ?? [], shared?.scaling),
+    [shared]
+  );
+  const sharedPlaced = useMemo(() => placeItems(shared?.items ?? []), [shared]);
+  const sharedDerived = useMemo(
+    () => mergeDerived(scoring.derived, shared?.derived),
+    [scoring.derived, shared]
+  );
 
-  const [optResult, setOptResult] = useState<null | {
-    best: Item[];
-    bestScore: ReturnType<typeof scoreBuild>;
-    missingSlots: SlotKey[];
-    searched: any;
+  const sharedDeficits = useMemo(
+    () =>
+      computeDeficits(
+        withDerived(sharedTotals, shared?.derived),
+        shared?.targets ?? {}
+      ),
+    [sharedTotals, shared]
+  );
+
+  const [optMode, setOptMode] = useState<OptimizerMode>("beam");
+  const [showAllSwaps, setShowAllSwaps] = useState(false);
+  const [projectedRank, setProjectedRank] = useState(MAX_RANK);
+  const [rerolls, setRerolls] = useState<RerollEstimate[] | null>(null);
+  const [rerollRun, setRerollRun] = useState<RerollProgress | null>(null);
+  const rerollRunRef = useRef(0); // bumping it drops the running simulation
+  const [compareA, setCompareA] = useState("equipped");
+  const [compareB, setCompareB] = useState("opt:0");
+  const [compareTargetsFrom, setCompareTargetsFrom] = useState<"a" | "b">("a");
+  const [optResult, setOptResult] = useState<null | OptimizeResult>(null);
+  const [optRun, setOptRun] = useState<null | {
+    runId: number;
+    progress: OptimizeProgress | null;
   }>(null);
+  const [optError, setOptError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+
+  // Stop any running search when the app unmounts
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      rerollRunRef.current++;
+      salvageRunRef.current++;
+    },
+    []
+  );
+
+  // Load persisted. Saving waits for this so the first (empty) render never
+  // overwrites stored data.
+  const [hydrated, setHydrated] = useState(false);
+  const [recovery, setRecovery] = useState<Exclude<
+    LoadResult,
+    { status: "empty" | "ok" }
+  > | null>(null);
 
-  // Load persisted
   useEffect(() => {
-    const st = loadState();
-    if (!st) return;
-    if (Array.isArray(st.items)) setItems(st.items);
-    if (st.equipped) setEquipped(st.equipped as Equipped);
-    if (st.targets) {
-      setTargets(st.targets);
-      setTargetsText(targetsToText(st.targets));
+    const res = loadPersisted();
+    if (res.status === "recovered" || res.status === "failed") {
+      setRecovery(res);
     }
+    if (res.status === "ok" || res.status === "recovered") {
+      const st = res.state;
+      const active =
+        st.characters.find((c) => c.id === st.activeCharacterId) ??
+        st.characters[0];
+      // A stored history only lines up with cleanly loaded data.
+      const saved = res.status === "ok" ? loadHistory() : null;
+      dispatch({
+        type: "history/load",
+        state: {
+          items: st.items.map(canonicalizeItem),
+          characters: st.characters,
+          activeCharacterId: active.id,
+          scoring: st.scoring ?? DEFAULT_SCORING,
+        },
+        past: saved?.past,
+        future: saved?.future,
+      });
+    }
+    setHydrated(true);
   }, []);
 
+  // Without a quarantined copy, saving would destroy the only copy of the
+  // unreadable data, so wait until the user dismisses the banner.
+  const saveBlocked = !!recovery && recovery.quarantineKey === null;
+
+  const plannerState = useMemo<PlannerState>(
+    () => ({
+      items,
+      characters,
+      activeCharacterId: activeCharacterId ?? undefined,
+      scoring,
+    }),
+    [items, characters, activeCharacterId, scoring]
+  );
+
   // Persist
+  const [saveFailed, setSaveFailed] = useState(false);
+  useEffect(() => {
+    if (!hydrated || saveBlocked) return;
+    setSaveFailed(!savePersisted(plannerState));
+  }, [hydrated, saveBlocked, plannerState]);
+
+  // Undo history: optionally kept across reloads
+  const [keepHistory, setKeepHistory] = useState(historyPersisted);
+  const [historySaveFailed, setHistorySaveFailed] = useState(false);
+  useEffect(() => {
+    if (!hydrated || saveBlocked) return;
+    if (keepHistory) {
+      setHistorySaveFailed(!saveHistory(history.past, history.future));
+    } else {
+      clearHistory();
+      setHistorySaveFailed(false);
+    }
+  }, [hydrated, saveBlocked, keepHistory, history.past, history.future]);
+
+  const undoLabel = history.past[history.past.length - 1]?.label ?? null;
+  const redoLabel = history.future[0]?.label ?? null;
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo. Text fields keep their
+  // own native undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (
+        el &&
+        (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName))
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: "history/undo" });
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        dispatch({ type: "history/redo" });
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Several actions as one undo step.
+  function dispatchAll(label: string, actions: PlannerAction[]) {
+    const state = actions.reduce<PlannerData>(plannerReducer, history.present);
+    dispatch({ type: "state/replace", state, label });
+  }
+
+  // Export / import
+  const [importFile, setImportFile] = useState<null | {
+    name: string;
+    state: PlannerState;
+    issues: string[];
+  }>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importCollisions, setImportCollisions] =
+    useState<CollisionPolicy>("keep-both");
+
+  const importPlan = useMemo(
+    () =>
+      importFile
+        ? planImport(
+            plannerState,
+            importFile.state,
+            importMode,
+            importCollisions,
+            importFile.issues
+          )
+        : null,
+    [plannerState, importFile, importMode, importCollisions]
+  );
+
+  function exportJson() {
+    downloadText(
+      exportFileName(),
+      exportState(plannerState),
+      "application/json"
+    );
+  }
+
+  // Spreadsheet exports. The BOM makes Excel read the file as UTF-8.
+  function exportCsv(kind: "inventory" | "totals" | "deficits") {
+    const text =
+      kind === "inventory"
+        ? inventoryCsv(items, scoring.scaling)
+        : kind === "totals"
+        ? totalsCsv(sumBuffs(equippedItems, scoring.scaling))
+        : deficitsCsv(deficits.rows);
+    const build = `${character.name}-${loadout.name}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    downloadText(
+      kind === "inventory"
+        ? "wwm-inventory.csv"
+        : `wwm-${kind}-${build || "build"}.csv`,
+      "\uFEFF" + text,
+      "text/csv;charset=utf-8"
+    );
+  }
+
+  async function copyShareLink() {
+    const url = shareUrl(
+      {
+        name: loadout.name,
+        items: equippedItems,
+        targets,
+        scaling: scoring.scaling,
+        derived: scoring.derived,
+      },
+      window.location.href
+    );
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus("Link copied to clipboard.");
+      setTimeout(() => setShareStatus(null), 3000);
+    } catch {
+      // Clipboard blocked (e.g., file:// or permissions): let the user copy it.
+      window.prompt("Copy this link:", url);
+      setShareStatus(null);
+    }
+  }
+
+  function closeShared() {
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+    setShared(null);
+    setSharedError(null);
+  }
+
+  /**
+   * Adds the shared items to the inventory (items identical to one already
+   * there are reused) and, optionally, a loadout equipping them.
+   */
+  function importShared(asLoadout: boolean) {
+    if (!shared) return;
+    const added: Item[] = [];
+    const ids = new Map<string, string>(); // shared id -> inventory id
+    for (const it of shared.items) {
+      const existing = items.find((x) => sameItem(x, it));
+      const id = existing ? existing.id : uid("item");
+      if (!existing) added.push({ ...it, id });
+      ids.set(it.id, id);
+    }
+    const placed = placeItems(shared.items);
+    const equippedIds = emptyEquipped();
+    for (const slot of SLOTS) {
+      equippedIds[slot] = ids.get(placed[slot] ?? "") ?? null;
+    }
+    const actions: PlannerAction[] = [{ type: "items/add", items: added }];
+    if (asLoadout) {
+      const l: Loadout = {
+        ...createLoadout(shared.name),
+        equipped: equippedIds,
+        targets: shared.targets,
+      };
+      actions.push({ type: "loadout/add", loadout: l });
+      // Its targets may name the sharer's derived stats.
+      if (sharedDerived.added.length > 0) {
+        actions.push({
+          type: "scoring/set",
+          scoring: sanitizeScoring({ ...scoring, derived: sharedDerived.defs }),
+        });
+      }
+    }
+    dispatchAll("import shared build", actions);
+    closeShared();
+  }
+
+  async function readImportFile(file: File) {
+    setImportFile(null);
+    setImportError(null);
+    try {
+      const parsed = parseImport(await file.text());
+      setImportFile({ name: file.name, ...parsed });
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function applyImport() {
+    if (!importPlan) return;
+    const st = importPlan.state;
+    const active =
+      st.characters.find(
+        (c) =>
+          c.id ===
+          (importPlan.mode === "replace"
+            ? st.activeCharacterId
+            : activeCharacterId)
+      ) ?? st.characters[0];
+    dispatch({
+      type: "state/replace",
+      label: "import backup",
+      state: {
+        items: st.items,
+        characters: st.characters,
+        activeCharacterId: active.id,
+        scoring: st.scoring ?? DEFAULT_SCORING, // merge: ours plus new derived stats
+      },
+    });
+    setImportFile(null);
+  }
+
+  // The optimizer result belongs to the loadout, inventory, targets and
+  // scoring it was run on: switching builds or editing any of them drops it
+  // (and stops a running search). The targets editor follows the active
+  // loadout (including undo/redo).
   useEffect(() => {
-    saveState({ items, equipped, targets });
-  }, [items, equipped, targets]);
+    stopWorker();
+    setOptResult(null);
+    setOptError(null);
+  }, [loadout.id, items, targets, scoring]);
+
+  useEffect(() => setTargetsText(targetsToText(targets)), [targets]);
+  useEffect(
+    () => setDerivedText(derivedToText(scoring.derived ?? [])),
+    [scoring.derived]
+  );
+
+  function selectCharacter(id: string) {
+    dispatch({ type: "character/select", characterId: id });
+  }
+
+  function addCharacter() {
+    const c = createCharacter(`Character ${characters.length + 1}`);
+    dispatch({ type: "character/add", character: c });
+  }
+
+  function copyCharacter() {
+    dispatch({
+      type: "character/add",
+      character: duplicateCharacter(character),
+    });
+  }
+
+  function deleteCharacter() {
+    if (characters.length <= 1) return;
+    dispatch({ type: "character/delete", characterId: character.id });
+  }
+
+  function selectLoadout(id: string) {
+    dispatch({ type: "loadout/select", loadoutId: id });
+  }
+
+  function addLoadout() {
+    const l = createLoadout(`Loadout ${character.loadouts.length + 1}`);
+    dispatch({ type: "loadout/add", loadout: l });
+  }
+
+  function copyLoadout() {
+    dispatch({ type: "loadout/add", loadout: duplicateLoadout(loadout) });
+  }
+
+  function deleteLoadout() {
+    if (character.loadouts.length <= 1) return;
+    dispatch({ type: "loadout/delete", loadoutId: loadout.id });
+  }
 
   // Derived
   const equippedItems = useMemo(() => {
@@ -489,16 +1112,38 @@ export default function App() {
     return arr;
   }, [items, equipped]);
 
-  const totals = useMemo(() => {
-    const summed = sumBuffs(equippedItems);
-    const flat: Record<string, number> = {};
-    for (const [k, v] of Object.entries(summed)) flat[k] = v.total;
-    return flat;
-  }, [equippedItems]);
+  // Reroll estimates go stale with the build they were run on.
+  useEffect(() => {
+    rerollRunRef.current++;
+    setRerollRun(null);
+    setRerolls(null);
+  }, [equippedItems, targets, scoring]);
+
+  const totals = useMemo(
+    () => totalsOf(equippedItems, scoring.scaling),
+    [equippedItems, scoring.scaling]
+  );
+  // Buff totals plus derived stats; targets may name either.
+  const statTotals = useMemo(
+    () => withDerived(totals, scoring.derived),
+    [totals, scoring.derived]
+  );
+  const derivedNames = useMemo(
+    () => formulasOf(scoring.derived)?.names ?? [],
+    [scoring.derived]
+  );
+  const derivedErrors = useMemo(() => {
+    const parsed = parseDerivedText(derivedText);
+    return [...parsed.errors, ...compileFormulas(parsed.defs).errors];
+  }, [derivedText]);
+  const equippedSets = useMemo(
+    () => activeSets(equippedItems),
+    [equippedItems]
+  );
 
   const deficits = useMemo(
-    () => computeDeficits(totals, targets),
-    [totals, targets]
+    () => computeDeficits(statTotals, targets),
+    [statTotals, targets]
   );
 
   const inventoryView = useMemo(() => {
@@ -521,8 +1166,13 @@ export default function App() {
   function startCreate() {
     setEditingId(null);
     setDraftName("");
-    setDraftSlot("Weapon 1");
+    setDraftSlot("Weapon");
     setDraftBuffs([{ id: uid("b"), name: "", value: 0, recommended: false }]);
+    setDraftExcluded(false);
+    setDraftSet("");
+    setDraftRarity("");
+    setDraftLevel("");
+    setDraftRank("");
   }
 
   function startEdit(itemId: string) {
@@ -532,6 +1182,11 @@ export default function App() {
     setDraftName(it.name);
     setDraftSlot(it.slot);
     setDraftBuffs(it.buffs.map((b) => ({ ...b })));
+    setDraftExcluded(!!it.excluded);
+    setDraftSet(it.set ?? "");
+    setDraftRarity(it.rarity ?? "");
+    setDraftLevel(it.level === undefined ? "" : String(it.level));
+    setDraftRank(it.rank === undefined ? "" : String(it.rank));
   }
 
   function cancelEdit() {
@@ -543,6 +1198,7 @@ export default function App() {
   function saveItem() {
     const name = draftName.trim() || "Unnamed Item";
     const slot = draftSlot;
+    const excluded = draftExcluded;
     const buffs = draftBuffs
       .map((b) => ({
         ...b,
@@ -553,27 +1209,92 @@ export default function App() {
 
     // soft rule: 5–6 lines, but allow any and highlight instead of blocking
 
-    if (editingId) {
-      setItems((prev) =>
-        prev.map((x) => (x.id === editingId ? { ...x, name, slot, buffs } : x))
-      );
-    } else {
-      const it: Item = { id: uid("it"), name, slot, buffs };
-      setItems((prev) => [it, ...prev]);
-    }
+    const item: Item = {
+      id: editingId ?? uid("it"),
+      name,
+      slot,
+      buffs,
+      excluded,
+    };
+    if (draftSet) item.set = draftSet;
+    if (draftRarity) item.rarity = draftRarity;
+    // Blank or non-numeric level/rank leave the attribute unset.
+    const whole = (raw: string, min: number, max: number) => {
+      const n = Math.round(Number(raw));
+      return raw.trim() && Number.isFinite(n)
+        ? Math.min(Math.max(n, min), max)
+        : undefined;
+    };
+    const level = whole(draftLevel, 1, MAX_LEVEL);
+    if (level !== undefined) item.level = level;
+    const rank = whole(draftRank, 0, MAX_RANK);
+    if (rank !== undefined) item.rank = rank;
+    dispatch({ type: "item/save", item });
     cancelEdit();
   }
 
+  function addBulkItems() {
+    if (!bulkResult || bulkErrors > 0) return;
+    const added = bulkResult.items.map((x) => x.item);
+    dispatch({ type: "items/add", items: added });
+    setBulkText("");
+    setBulkOpen(false);
+  }
+
+  function analyzeSalvage() {
+    const runId = ++salvageRunRef.current;
+    setSalvage(null);
+    runInSlices(
+      salvageSearch(items, characters, { scoring }),
+      () => salvageRunRef.current === runId,
+      setSalvageRun,
+      (found) => {
+        setSalvageRun(null);
+        setSalvage(found);
+        setSalvageSelected(found.map((c) => c.item.id));
+      }
+    );
+  }
+
+  function cancelSalvage() {
+    salvageRunRef.current++;
+    setSalvageRun(null);
+  }
+
+  function simulateRerolls() {
+    const runId = ++rerollRunRef.current;
+    setRerolls(null);
+    runInSlices(
+      rerollSearch(equippedItems, targets, { samples: 1000, scoring }),
+      () => rerollRunRef.current === runId,
+      setRerollRun,
+      (found) => {
+        setRerollRun(null);
+        setRerolls(found);
+      }
+    );
+  }
+
+  function cancelRerolls() {
+    rerollRunRef.current++;
+    setRerollRun(null);
+  }
+
+  function deleteSalvage() {
+    if (salvageSelected.length === 0) return;
+    dispatch({ type: "items/delete", itemIds: salvageSelected });
+    if (editingId && salvageSelected.includes(editingId)) cancelEdit();
+  }
+
   function deleteItem(itemId: string) {
-    setItems((prev) => prev.filter((x) => x.id !== itemId));
-    setEquipped((prev) => {
-      const next = { ...prev };
-      for (const s of SLOTS) if (next[s] === itemId) next[s] = null;
-      return next;
-    });
+    dispatch({ type: "item/delete", itemId });
     if (editingId === itemId) cancelEdit();
   }
 
+  function toggleExcluded(itemId: string) {
+    dispatch({ type: "item/toggleExcluded", itemId });
+  }
+
   function addBuffLine() {
     setDraftBuffs((prev) => [
       ...prev,
@@ -592,38 +1313,256 @@ export default function App() {
   }
 
   function setEquippedForSlot(slot: SlotKey, itemId: string | null) {
-    setEquipped((prev) => ({ ...prev, [slot]: itemId }));
+    dispatch({ type: "loadout/equip", slot, itemId });
+  }
+
+  function toggleLocked(slot: SlotKey) {
+    dispatch({ type: "loadout/toggleLock", slot });
   }
 
   function applyTargetsText() {
     const parsed = parseTargetsFromText(targetsText);
-    setTargets(parsed);
+    dispatch({ type: "loadout/update", patch: { targets: parsed } });
+  }
+
+  function applyDerivedText() {
+    const { defs } = parseDerivedText(derivedText);
+    dispatch({
+      type: "scoring/set",
+      scoring: sanitizeScoring({ ...scoring, derived: defs }),
+    });
+  }
+
+  function setObjective(stat: string, weight: number) {
+    dispatch({
+      type: "scoring/set",
+      scoring: sanitizeScoring({
+        ...scoring,
+        objective: stat ? { stat, weight } : undefined,
+      }),
+    });
+  }
+
+  function setScaling(table: ScalingTable) {
+    dispatch({
+      type: "scoring/set",
+      scoring: sanitizeScoring({
+        ...scoring,
+        scaling: sameScaling(table, DEFAULT_SCALING) ? undefined : table,
+      }),
+    });
   }
 
   function clearAll() {
-    setItems([]);
-    setEquipped(Object.fromEntries(SLOTS.map((s) => [s, null])) as Equipped);
-    setTargets({});
-    setTargetsText("");
-    setOptResult(null);
+    dispatch({
+      type: "state/replace",
+      state: emptyPlannerData(),
+      label: "reset",
+    });
+  }
+
+  function stopWorker() {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setOptRun(null);
   }
 
   function runOptimizer() {
-    const res = optimize(items, targets, { topKPerSlot: 60, beamWidth: 3000 });
-    setOptResult(res);
-    // Auto-equip best (if it fills all slots present)
-    const nextEq: Equipped = { ...equipped };
-    for (const slot of SLOTS) nextEq[slot] = null;
-    for (const it of res.best) nextEq[it.slot] = it.id;
-    setEquipped(nextEq);
+    const pinned: Partial<Record<SlotKey, string | null>> = {};
+    for (const slot of SLOTS) if (locked[slot]) pinned[slot] = equipped[slot];
+    const opts = {
+      mode: optMode,
+      topKPerSlot: 60,
+      beamWidth: 3000,
+      topN: 5,
+      pinned,
+      scoring,
+    };
+    setOptError(null);
+    if (typeof Worker === "undefined") {
+      // No worker support: search on the main thread.
+      setOptResult(optimize(items, targets, opts));
+      return;
+    }
+
+    stopWorker();
+    const runId = ++runIdRef.current;
+    const worker = new Worker(
+      new URL("./optimizer.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<OptimizerResponse>) => {
+      const msg = e.data;
+      if (msg.runId !== runIdRef.current) return;
+      if (msg.type === "progress") {
+        setOptRun({ runId, progress: msg.progress });
+        return;
+      }
+      stopWorker();
+      if (msg.type === "done") setOptResult(msg.result);
+      else setOptError(msg.message);
+    };
+    worker.onerror = (e) => {
+      stopWorker();
+      setOptError(e.message || "Optimizer worker failed.");
+    };
+
+    setOptRun({ runId, progress: null });
+    const req: OptimizerRequest = { type: "run", runId, items, targets, opts };
+    worker.postMessage(req);
+  }
+
+  function cancelOptimizer() {
+    if (!optRun || !workerRef.current) return;
+    const req: OptimizerRequest = { type: "cancel", runId: optRun.runId };
+    workerRef.current.postMessage(req);
+  }
+
+  function equipBuild(build: Item[]) {
+    // Items already equipped (e.g. in locked slots) stay where they are.
+    const nextEq = placeItems(build, equipped);
+    dispatch({ type: "loadout/update", patch: { equipped: nextEq } });
   }
 
   // Quick stats
   const equippedScore = useMemo(
-    () => scoreBuild(equippedItems, targets),
-    [equippedItems, targets]
+    () => scoreBuild(equippedItems, targets, scoring),
+    [equippedItems, targets, scoring]
+  );
+
+  const upgrades = useMemo(
+    () =>
+      rankSwaps(
+        items,
+        equipped,
+        targets,
+        scoring,
+        SLOTS.filter((s) => locked[s])
+      ),
+    [items, equipped, targets, scoring, locked]
+  );
+
+  const rankProjections = useMemo(
+    () =>
+      new Map(
+        projectRank(
+          items,
+          equipped,
+          targets,
+          projectedRank,
+          scoring,
+          SLOTS.filter((s) => locked[s])
+        ).map((p) => [p.slot, p.option])
+      ),
+    [items, equipped, targets, projectedRank, scoring, locked]
+  );
+
+  const bestSwap = useMemo(() => {
+    let best: null | { slot: SlotKey; option: SwapOption } = null;
+    for (const u of upgrades) {
+      const option = u.options[0];
+      if (option && option.scoreDelta > 0) {
+        if (!best || option.scoreDelta > best.option.scoreDelta) {
+          best = { slot: u.slot, option };
+        }
+      }
+    }
+    return best;
+  }, [upgrades]);
+
+  const farming = useMemo(
+    () =>
+      optResult && !optResult.cancelled
+        ? farmingTargets(
+            optResult.best,
+            targets,
+            items,
+            SLOTS.filter((s) => locked[s]),
+            scoring
+          )
+        : [],
+    [optResult, targets, items, locked, scoring]
+  );
+
+  // Builds the comparison view can pick from.
+  const compareSources = useMemo(() => {
+    const byId = new Map(items.map((it) => [it.id, it]));
+    const list: {
+      key: string;
+      label: string;
+      items: Item[];
+      targets: Targets;
+    }[] = [
+      {
+        key: "equipped",
+        label: `Equipped (${character.name} / ${loadout.name})`,
+        items: equippedItems,
+        targets,
+      },
+    ];
+    optResult?.builds.forEach((b, i) =>
+      list.push({
+        key: `opt:${i}`,
+        label: `Optimizer build #${i + 1}`,
+        items: b.items,
+        targets,
+      })
+    );
+    for (const c of characters) {
+      for (const l of c.loadouts) {
+        if (l.id === loadout.id) continue;
+        list.push({
+          key: `lo:${l.id}`,
+          label: `${c.name} / ${l.name}`,
+          items: SLOTS.map((s) => byId.get(l.equipped[s] ?? "")).filter(
+            (it): it is Item => !!it
+          ),
+          targets: l.targets,
+        });
+      }
+    }
+    return list;
+  }, [
+    items,
+    characters,
+    character,
+    loadout,
+    equippedItems,
+    targets,
+    optResult,
+  ]);
+
+  const compareSideA =
+    compareSources.find((s) => s.key === compareA) ?? compareSources[0];
+  const compareSideB =
+    compareSources.find((s) => s.key === compareB) ??
+    compareSources.find((s) => s !== compareSideA) ??
+    null;
+  const comparison = useMemo(
+    () =>
+      compareSideB
+        ? compareBuilds(
+            compareSideA.items,
+            compareSideB.items,
+            compareTargetsFrom === "a"
+              ? compareSideA.targets
+              : compareSideB.targets,
+            scoring
+          )
+        : null,
+    [compareSideA, compareSideB, compareTargetsFrom, scoring]
   );
 
+  const scalingTable = scoring.scaling ?? DEFAULT_SCALING;
+
+  const scoringPreset =
+    SCORING_PRESETS.find((p) =>
+      (Object.keys(p.config) as (keyof ScoringConfig)[]).every(
+        (k) => p.config[k] === scoring[k]
+      )
+    )?.name ?? "Custom";
+
   const warnings = useMemo(() => {
     const w: string[] = [];
     if (Object.keys(targets).length === 0)
@@ -644,7 +1583,82 @@ export default function App() {
             Track inventory, equip 8 slots, aggregate buffs, compare against
             required targets, and auto-select a best set.
           </p>
-          {warnings.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <TextButton
+              onClick={() => dispatch({ type: "history/undo" })}
+              disabled={!undoLabel}
+            >
+              ↶ Undo{undoLabel ? ` ${undoLabel}` : ""}
+            </TextButton>
+            <TextButton
+              onClick={() => dispatch({ type: "history/redo" })}
+              disabled={!redoLabel}
+            >
+              ↷ Redo{redoLabel ? ` ${redoLabel}` : ""}
+            </TextButton>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={keepHistory}
+                onChange={(e) => setKeepHistory(e.target.checked)}
+              />
+              Keep undo history after reload
+            </label>
+            {historySaveFailed && (
+              <span className="text-xs text-amber-700">
+                Not enough browser storage to keep it.
+              </span>
+            )}
+            <span className="text-xs text-gray-500">Ctrl+Z / Ctrl+Shift+Z</span>
+          </div>
+          {saveFailed && (
+            <div className="rounded-2xl border border-red-300 bg-red-50 p-3 text-sm text-gray-800">
+              <div className="font-medium">Changes are not being saved.</div>
+              <div className="mt-1 text-xs text-gray-700">
+                Browser storage is full or unavailable. Use Backup &amp; Export
+                to keep a copy before closing this page.
+              </div>
+            </div>
+          )}
+          {recovery && (
+            <div className="rounded-2xl border border-amber-300 bg-amber-50 p-3 text-sm text-gray-800">
+              <div className="font-medium">
+                {recovery.status === "failed"
+                  ? "Saved data could not be loaded; starting empty."
+                  : `Saved data loaded with ${recovery.issues.length} problem(s); invalid entries were dropped.`}
+              </div>
+              <div className="mt-1 text-xs text-gray-700">
+                {recovery.quarantineKey
+                  ? `The original data is kept in browser storage under "${recovery.quarantineKey}".`
+                  : "The original data could not be copied aside, so changes are not saved until you download it or dismiss this message."}
+              </div>
+              <ul className="mt-2 max-h-32 overflow-auto text-xs text-gray-600">
+                {recovery.issues.slice(0, 20).map((x, i) => (
+                  <li key={i}>• {x}</li>
+                ))}
+                {recovery.issues.length > 20 && (
+                  <li>• …and {recovery.issues.length - 20} more</li>
+                )}
+              </ul>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <TextButton
+                  onClick={() =>
+                    downloadText(
+                      "wwm-build-planner-recovered.json",
+                      recovery.raw,
+                      "application/json"
+                    )
+                  }
+                >
+                  Download original data
+                </TextButton>
+                <TextButton onClick={() => setRecovery(null)}>
+                  Dismiss
+                </TextButton>
+              </div>
+            </div>
+          )}
+          {warnings.length > 0 && (
             <div className="rounded-2xl border bg-white p-3 text-sm text-gray-700">
               {warnings.map((x) => (
                 <div key={x}>• {x}</div>
@@ -653,14 +1667,229 @@ export default function App() {
           )}
         </header>
 
-        <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        {(shared || sharedError) && (
+          <div className="mb-4">
+            <Section
+              title={shared ? `Shared build: ${shared.name}` : "Shared build"}
+              right={
+                <div className="flex items-center gap-2">
+                  {shared && (
+                    <>
+                      <PrimaryButton onClick={() => importShared(true)}>
+                        Import as loadout
+                      </PrimaryButton>
+                      <TextButton onClick={() => importShared(false)}>
+                        Import items only
+                      </TextButton>
+                    </>
+                  )}
+                  <TextButton onClick={closeShared}>
+                    Back to my planner
+                  </TextButton>
+                </div>
+              }
+            >
+              {sharedError || !shared ? (
+                <div className="text-sm text-red-600">
+                  Could not open this link: {sharedError}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="text-xs text-gray-600">
+                    Read-only view. Importing adds these items to your inventory
+                    (identical items you already have are reused); nothing
+                    changes until you import.
+                    {sharedDerived.added.length > 0 && (
+                      <>
+                        {" "}
+                        Importing as a loadout also adds the derived stats{" "}
+                        <b>{sharedDerived.added.join(", ")}</b>.
+                      </>
+                    )}
+                    {sharedDerived.conflicts.length > 0 && (
+                      <>
+                        {" "}
+                        You define <b>
+                          {sharedDerived.conflicts.join(", ")}
+                        </b>{" "}
+                        differently; your formulas are kept.
+                      </>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                    {SLOTS.map((slot) => {
+                      const it = shared.items.find(
+                        (x) => x.id === sharedPlaced[slot]
+                      );
+                      return (
+                        <div key={slot} className="rounded-2xl border p-3">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <div className="text-sm font-semibold">{slot}</div>
+                            <span className="text-sm text-gray-700">
+                              {it ? it.name : "(not equipped)"}
+                            </span>
+                          </div>
+                          {it && (
+                            <div className="mt-2 flex flex-wrap gap-2">
+                              {it.buffs.map((b) => (
+                                <span
+                                  key={b.id}
+                                  className={
+                                    "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs " +
+                                    (b.recommended ? "bg-gray-100" : "")
+                                  }
+                                >
+                                  <span className="font-medium">{b.name}</span>
+                                  <span className="text-gray-600">
+                                    +
+                                    {formatBuffValue(
+                                      b.name,
+                                      effectiveValue(it, b, shared.scaling)
+                                    )}
+                                  </span>
+                                  {b.recommended && (
+                                    <span className="text-gray-700">★</span>
+                                  )}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                    <div className="rounded-2xl border p-3">
+                      <div className="mb-2 text-sm font-semibold">
+                        Aggregated buffs
+                      </div>
+                      {Object.keys(sharedTotals).length === 0 ? (
+                        <div className="text-sm text-gray-600">
+                          No items equipped.
+                        </div>
+                      ) : (
+                        <BuffTotalsTable totals={sharedTotals} />
+                      )}
+                    </div>
+                    <div className="rounded-2xl border p-3">
+                      <div className="mb-2 flex items-center justify-between">
+                        <div className="text-sm font-semibold">
+                          Necessary buffs comparison
+                        </div>
+                        <Pill>
+                          Missing total:{" "}
+                          <b className="ml-1">{sharedDeficits.totalMissing}</b>
+                        </Pill>
+                      </div>
+                      {sharedDeficits.rows.length === 0 ? (
+                        <div className="text-sm text-gray-600">
+                          This build has no targets.
+                        </div>
+                      ) : (
+                        <DeficitsTable rows={sharedDeficits.rows} />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+
+        <div
+          className={
+            "grid grid-cols-1 gap-4 lg:grid-cols-3" +
+            (shared || sharedError ? " hidden" : "")
+          }
+        >
           {/* Left column */}
           <div className="flex flex-col gap-4 lg:col-span-2">
+            <Section title="Characters & Loadouts">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="block text-xs font-medium text-gray-600">
+                    Character
+                  </label>
+                  <select
+                    value={character.id}
+                    onChange={(e) => selectCharacter(e.target.value)}
+                    className="w-full rounded-xl border px-3 py-2 text-sm"
+                  >
+                    {characters.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                  <Input
+                    value={character.name}
+                    onChange={(v) =>
+                      dispatch({ type: "character/rename", name: v })
+                    }
+                    placeholder="Character name"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <TextButton onClick={addCharacter}>+ New</TextButton>
+                    <TextButton onClick={copyCharacter}>Duplicate</TextButton>
+                    <TextButton
+                      onClick={deleteCharacter}
+                      disabled={characters.length <= 1}
+                    >
+                      Delete
+                    </TextButton>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-xs font-medium text-gray-600">
+                    Loadout
+                  </label>
+                  <select
+                    value={loadout.id}
+                    onChange={(e) => selectLoadout(e.target.value)}
+                    className="w-full rounded-xl border px-3 py-2 text-sm"
+                  >
+                    {character.loadouts.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.name}
+                      </option>
+                    ))}
+                  </select>
+                  <Input
+                    value={loadout.name}
+                    onChange={(v) =>
+                      dispatch({ type: "loadout/update", patch: { name: v } })
+                    }
+                    placeholder="Loadout name (e.g., PvE, PvP)"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <TextButton onClick={addLoadout}>+ New</TextButton>
+                    <TextButton onClick={copyLoadout}>Duplicate</TextButton>
+                    <TextButton
+                      onClick={deleteLoadout}
+                      disabled={character.loadouts.length <= 1}
+                    >
+                      Delete
+                    </TextButton>
+                  </div>
+                </div>
+              </div>
+              <div className="mt-3 text-xs text-gray-600">
+                Items are shared; each loadout keeps its own equipped gear,
+                locks and targets.
+              </div>
+            </Section>
+
             <Section
               title="Inventory"
               right={
                 <div className="flex items-center gap-2">
                   <TextButton onClick={startCreate}>+ New Item</TextButton>
+                  <TextButton onClick={() => setBulkOpen((v) => !v)}>
+                    Bulk Import
+                  </TextButton>
+                  <TextButton onClick={() => setSalvageOpen((v) => !v)}>
+                    Salvage
+                  </TextButton>
                   <TextButton onClick={clearAll}>Reset</TextButton>
                 </div>
               }
@@ -676,7 +1905,7 @@ export default function App() {
                     className="w-full rounded-xl border px-3 py-2 text-sm"
                   >
                     <option value="All">All</option>
-                    {SLOTS.map((s) => (
+                    {SLOT_TYPES.map((s) => (
                       <option key={s} value={s}>
                         {s}
                       </option>
@@ -717,10 +1946,19 @@ export default function App() {
                                 {it.name}
                               </div>
                               <Pill>{it.slot}</Pill>
+                              {it.set && (
+                                <Pill>
+                                  {lookupGearSet(it.set)?.name ?? it.set}
+                                </Pill>
+                              )}
+                              {scalingLabel(it) && (
+                                <Pill>{scalingLabel(it)}</Pill>
+                              )}
                               <Pill>
                                 {it.buffs.length} lines
                                 {recCount ? ` • ${recCount} recommended` : ""}
                               </Pill>
+                              {it.excluded && <Pill>Excluded</Pill>}
                             </div>
                             <div className="mt-2 flex flex-wrap gap-2">
                               {it.buffs.length === 0 ? (
@@ -739,9 +1977,24 @@ export default function App() {
                                     <span className="font-medium">
                                       {b.name}
                                     </span>
-                                    <span className="text-gray-600">
-                                      +{b.value}
+                                    <span
+                                      className="text-gray-600"
+                                      title={
+                                        scaleFactor(it, scoring.scaling) !== 1
+                                          ? `Base +${formatBuffValue(
+                                              b.name,
+                                              b.value
+                                            )}`
+                                          : undefined
+                                      }
+                                    >
+                                      +
+                                      {formatBuffValue(
+                                        b.name,
+                                        effectiveValue(it, b, scoring.scaling)
+                                      )}
                                     </span>
+                                    <RollQuality slot={it.slot} line={b} />
                                     {b.recommended && (
                                       <span className="text-gray-700">★</span>
                                     )}
@@ -751,6 +2004,9 @@ export default function App() {
                             </div>
                           </div>
                           <div className="flex shrink-0 items-center gap-2">
+                            <TextButton onClick={() => toggleExcluded(it.id)}>
+                              {it.excluded ? "Include" : "Exclude"}
+                            </TextButton>
                             <TextButton onClick={() => startEdit(it.id)}>
                               Edit
                             </TextButton>
@@ -766,34 +2022,282 @@ export default function App() {
               </div>
             </Section>
 
+            {salvageOpen && (
+              <Section
+                title="Safe to Salvage"
+                right={
+                  <div className="flex items-center gap-2">
+                    {salvageRun ? (
+                      <TextButton onClick={cancelSalvage}>Cancel</TextButton>
+                    ) : (
+                      <PrimaryButton
+                        onClick={analyzeSalvage}
+                        disabled={items.length === 0}
+                      >
+                        Analyze
+                      </PrimaryButton>
+                    )}
+                    <TextButton
+                      onClick={deleteSalvage}
+                      disabled={salvageSelected.length === 0 || !salvage}
+                    >
+                      Delete {salvage ? salvageSelected.length : 0} items
+                    </TextButton>
+                    <TextButton onClick={() => setSalvageOpen(false)}>
+                      Close
+                    </TextButton>
+                  </div>
+                }
+              >
+                <div className="text-sm text-gray-700">
+                  Finds items another item for the same slot beats or matches on
+                  every targeted buff and on ★ lines, and items that are in none
+                  of the top 5 builds for any saved loadout's targets. Equipped
+                  and excluded items are never listed. Undo restores deleted
+                  items.
+                </div>
+                {salvageRun && (
+                  <div className="mt-3 text-sm text-gray-700">
+                    Analyzing… {salvageRun.done}/{salvageRun.total} target sets
+                  </div>
+                )}
+                {salvage && (
+                  <div className="mt-3 space-y-2">
+                    {salvage.length === 0 ? (
+                      <div className="text-sm text-gray-600">
+                        Nothing to salvage
+                        {characters.some((c) =>
+                          c.loadouts.some(
+                            (l) => Object.keys(l.targets).length > 0
+                          )
+                        )
+                          ? "."
+                          : ": add targets to a loadout first."}
+                      </div>
+                    ) : (
+                      <>
+                        <label className="flex items-center gap-2 text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={salvageSelected.length === salvage.length}
+                            onChange={(e) =>
+                              setSalvageSelected(
+                                e.target.checked
+                                  ? salvage.map((c) => c.item.id)
+                                  : []
+                              )
+                            }
+                          />
+                          Select all ({salvage.length})
+                        </label>
+                        <div className="max-h-80 space-y-2 overflow-auto">
+                          {salvage.map((c) => (
+                            <label
+                              key={c.item.id}
+                              className="flex items-start gap-2 rounded-xl border px-3 py-2 text-sm"
+                            >
+                              <input
+                                type="checkbox"
+                                className="mt-1"
+                                checked={salvageSelected.includes(c.item.id)}
+                                onChange={(e) =>
+                                  setSalvageSelected((prev) =>
+                                    e.target.checked
+                                      ? [...prev, c.item.id]
+                                      : prev.filter((id) => id !== c.item.id)
+                                  )
+                                }
+                              />
+                              <div>
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span className="font-medium">
+                                    {c.item.name}
+                                  </span>
+                                  <Pill>{c.item.slot}</Pill>
+                                  {c.item.excluded && <Pill>Excluded</Pill>}
+                                </div>
+                                <ul className="mt-1 text-xs text-gray-600">
+                                  {c.reasons.map((r) => (
+                                    <li key={r.kind}>
+                                      {r.kind === "dominated"
+                                        ? `Dominated by ${r.by.name}: at least as good on every targeted buff and ★ line.`
+                                        : `In none of the top ${r.topN} builds for ${r.targetSets} saved target set(s).`}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            </label>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </Section>
+            )}
+
+            {bulkOpen && (
+              <Section
+                title="Bulk Import"
+                right={
+                  <div className="flex items-center gap-2">
+                    <PrimaryButton
+                      onClick={addBulkItems}
+                      disabled={
+                        !bulkResult ||
+                        bulkResult.items.length === 0 ||
+                        bulkErrors > 0
+                      }
+                    >
+                      Add {bulkResult?.items.length ?? 0} items
+                    </PrimaryButton>
+                    <TextButton onClick={() => setBulkOpen(false)}>
+                      Close
+                    </TextButton>
+                  </div>
+                }
+              >
+                <textarea
+                  value={bulkText}
+                  onChange={(e) => setBulkText(e.target.value)}
+                  rows={10}
+                  className="w-full rounded-2xl border p-3 font-mono text-sm"
+                  placeholder={
+                    "Jade Sword | Weapon | Jade Ward\nCrit Rate: 5*\nAttack: 120\n\nor CSV:\nitem,slot,set,buff,value,recommended\nJade Sword,Weapon,Jade Ward,Crit Rate,5,yes"
+                  }
+                />
+                <div className="mt-2 text-xs text-gray-600">
+                  Text: an <b>Item name | Slot</b> line (optionally{" "}
+                  <b>| Gear set</b>) followed by <b>Buff: value</b> lines (end
+                  with * for ★ recommended). CSV: a header row with item, slot,
+                  set, buff, value, recommended and one buff line per row.
+                </div>
+
+                {bulkResult && (
+                  <div className="mt-3 space-y-3">
+                    <div className="text-xs text-gray-600">
+                      Read as {bulkResult.format === "csv" ? "CSV" : "text"}:{" "}
+                      {bulkResult.items.length} item(s)
+                      {bulkErrors > 0 &&
+                        ` • ${bulkErrors} error(s) to fix before adding`}
+                    </div>
+                    {bulkResult.messages.length > 0 && (
+                      <ul className="max-h-40 overflow-auto rounded-xl border p-2 text-xs">
+                        {bulkResult.messages.map((m, i) => (
+                          <li
+                            key={i}
+                            className={
+                              m.level === "error"
+                                ? "text-red-600"
+                                : "text-amber-600"
+                            }
+                          >
+                            Line {m.line}: {m.text}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {bulkResult.items.length > 0 && (
+                      <div className="overflow-auto rounded-xl border">
+                        <table className="w-full text-left text-xs">
+                          <thead className="bg-gray-50 text-gray-600">
+                            <tr>
+                              <th className="px-3 py-2">Line</th>
+                              <th className="px-3 py-2">Item</th>
+                              <th className="px-3 py-2">Slot</th>
+                              <th className="px-3 py-2">Buffs</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {bulkResult.items.map(({ line, item }) => (
+                              <tr key={item.id} className="border-t">
+                                <td className="px-3 py-2 text-gray-500">
+                                  {line}
+                                </td>
+                                <td className="px-3 py-2 font-medium">
+                                  {item.name}
+                                </td>
+                                <td className="px-3 py-2">{item.slot}</td>
+                                <td className="px-3 py-2">
+                                  {item.buffs
+                                    .map(
+                                      (b) =>
+                                        `${b.name} +${formatBuffValue(
+                                          b.name,
+                                          b.value
+                                        )}${b.recommended ? " ★" : ""}`
+                                    )
+                                    .join(", ")}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </Section>
+            )}
+
             <Section
               title="Equip & Totals"
               right={
                 <div className="flex items-center gap-2">
-                  <PrimaryButton
-                    onClick={runOptimizer}
-                    disabled={items.length === 0}
+                  <select
+                    value={optMode}
+                    onChange={(e) =>
+                      setOptMode(e.target.value as OptimizerMode)
+                    }
+                    className="rounded-xl border px-3 py-2 text-sm"
+                    title="Optimizer mode"
                   >
-                    Optimize & Equip Best
-                  </PrimaryButton>
+                    {OPTIMIZER_MODES.map((m) => (
+                      <option key={m.value} value={m.value}>
+                        {m.label}
+                      </option>
+                    ))}
+                  </select>
+                  <TextButton onClick={copyShareLink}>Share</TextButton>
+                  {optRun ? (
+                    <TextButton onClick={cancelOptimizer}>Cancel</TextButton>
+                  ) : (
+                    <PrimaryButton
+                      onClick={runOptimizer}
+                      disabled={items.length === 0}
+                    >
+                      Optimize
+                    </PrimaryButton>
+                  )}
                 </div>
               }
             >
+              {shareStatus && (
+                <div className="mb-3 text-xs text-gray-600">{shareStatus}</div>
+              )}
               <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
                 {SLOTS.map((slot) => {
                   const candidates = items
-                    .filter((i) => i.slot === slot)
+                    .filter((i) => fitsSlot(i, slot))
                     .slice()
                     .sort((a, b) => a.name.localeCompare(b.name));
+                  // An item equipped in the other slot of a pair moves here.
+                  const elsewhere = (id: string) =>
+                    SLOTS.find((s) => s !== slot && equipped[s] === id);
                   return (
                     <div key={slot} className="rounded-2xl border p-3">
                       <div className="mb-2 flex items-center justify-between">
                         <div className="text-sm font-semibold">{slot}</div>
-                        <TextButton
-                          onClick={() => setEquippedForSlot(slot, null)}
-                        >
-                          Clear
-                        </TextButton>
+                        <div className="flex items-center gap-2">
+                          <TextButton onClick={() => toggleLocked(slot)}>
+                            {locked[slot] ? "🔒 Locked" : "Lock"}
+                          </TextButton>
+                          <TextButton
+                            onClick={() => setEquippedForSlot(slot, null)}
+                          >
+                            Clear
+                          </TextButton>
+                        </div>
                       </div>
                       <select
                         value={equipped[slot] ?? ""}
@@ -803,14 +2307,19 @@ export default function App() {
                         className="w-full rounded-xl border px-3 py-2 text-sm"
                       >
                         <option value="">(not equipped)</option>
-                        {candidates.map((it) => (
-                          <option key={it.id} value={it.id}>
-                            {it.name}
-                          </option>
-                        ))}
+                        {candidates.map((it) => {
+                          const from = elsewhere(it.id);
+                          return (
+                            <option key={it.id} value={it.id}>
+                              {it.name}
+                              {from ? ` (moves from ${from})` : ""}
+                            </option>
+                          );
+                        })}
                       </select>
                       <div className="mt-2 text-xs text-gray-600">
                         {candidates.length} item(s) for this slot
+                        {locked[slot] && " • kept as-is by the optimizer"}
                       </div>
                     </div>
                   );
@@ -827,31 +2336,67 @@ export default function App() {
                       Equip items to see totals.
                     </div>
                   ) : (
-                    <div className="max-h-64 overflow-auto rounded-xl border">
-                      <table className="w-full text-sm">
-                        <thead className="sticky top-0 bg-white">
-                          <tr className="border-b">
-                            <th className="px-3 py-2 text-left font-medium">
-                              Buff
-                            </th>
-                            <th className="px-3 py-2 text-right font-medium">
-                              Total
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {Object.entries(totals)
-                            .sort(
-                              (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
-                            )
-                            .map(([k, v]) => (
-                              <tr key={k} className="border-b last:border-b-0">
-                                <td className="px-3 py-2">{k}</td>
-                                <td className="px-3 py-2 text-right">{v}</td>
-                              </tr>
+                    <BuffTotalsTable totals={totals} />
+                  )}
+                  {equippedSets.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      <div className="text-xs font-medium text-gray-600">
+                        Gear sets (bonuses included above)
+                      </div>
+                      {equippedSets.map((a) => (
+                        <div
+                          key={a.set.id}
+                          className="rounded-xl border px-2 py-2 text-xs"
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="font-medium">{a.set.name}</div>
+                            <Pill>{a.pieces} piece(s)</Pill>
+                          </div>
+                          <div className="mt-1 flex flex-wrap gap-2">
+                            {a.tiers.map((t) => (
+                              <Pill key={t.pieces}>
+                                {t.pieces}-piece:{" "}
+                                {t.buffs
+                                  .map(
+                                    (b) =>
+                                      `${b.name} +${formatBuffValue(
+                                        b.name,
+                                        b.value
+                                      )}`
+                                  )
+                                  .join(", ")}
+                              </Pill>
                             ))}
-                        </tbody>
-                      </table>
+                            {a.next && (
+                              <span className="text-gray-500">
+                                {a.next.pieces - a.pieces} more for the{" "}
+                                {a.next.pieces}-piece bonus
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {derivedNames.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                      <div className="text-xs font-medium text-gray-600">
+                        Derived stats
+                      </div>
+                      {derivedNames.map((n) => (
+                        <div
+                          key={n}
+                          className="flex items-center justify-between gap-2 rounded-xl border px-3 py-1.5 text-sm"
+                        >
+                          <span className="flex items-center gap-2">
+                            {n}
+                            {scoring.objective?.stat === n && (
+                              <Pill>Maximized</Pill>
+                            )}
+                          </span>
+                          <span>{formatNumber(statTotals[n] ?? 0)}</span>
+                        </div>
+                      ))}
                     </div>
                   )}
                 </div>
@@ -861,62 +2406,25 @@ export default function App() {
                     <div className="text-sm font-semibold">
                       Necessary buffs comparison
                     </div>
-                    <Pill>
-                      Missing total:{" "}
-                      <b className="ml-1">{deficits.totalMissing}</b>
-                    </Pill>
+                    <div className="flex flex-wrap gap-2">
+                      <Pill>
+                        Missing total:{" "}
+                        <b className="ml-1">{deficits.totalMissing}</b>
+                      </Pill>
+                      {deficits.totalWaste > 0 && (
+                        <Pill>
+                          Over cap:{" "}
+                          <b className="ml-1">{deficits.totalWaste}</b>
+                        </Pill>
+                      )}
+                    </div>
                   </div>
                   {Object.keys(targets).length === 0 ? (
                     <div className="text-sm text-gray-600">
                       Add targets below to compare.
                     </div>
                   ) : (
-                    <div className="max-h-64 overflow-auto rounded-xl border">
-                      <table className="w-full text-sm">
-                        <thead className="sticky top-0 bg-white">
-                          <tr className="border-b">
-                            <th className="px-3 py-2 text-left font-medium">
-                              Buff
-                            </th>
-                            <th className="px-3 py-2 text-right font-medium">
-                              Current
-                            </th>
-                            <th className="px-3 py-2 text-right font-medium">
-                              Required
-                            </th>
-                            <th className="px-3 py-2 text-right font-medium">
-                              Δ
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {deficits.rows.map((r) => (
-                            <tr
-                              key={r.name}
-                              className="border-b last:border-b-0"
-                            >
-                              <td className="px-3 py-2">{r.name}</td>
-                              <td className="px-3 py-2 text-right">
-                                {r.current}
-                              </td>
-                              <td className="px-3 py-2 text-right">
-                                {r.required}
-                              </td>
-                              <td
-                                className={
-                                  "px-3 py-2 text-right " +
-                                  (r.diff >= 0
-                                    ? "text-gray-800"
-                                    : "text-red-600")
-                                }
-                              >
-                                {r.diff >= 0 ? `+${r.diff}` : r.diff}
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
+                    <DeficitsTable rows={deficits.rows} />
                   )}
 
                   <div className="mt-3 rounded-xl border bg-white p-3 text-xs text-gray-700">
@@ -926,6 +2434,7 @@ export default function App() {
                         Recommended lines: {equippedScore.recommendedLines}
                       </Pill>
                       <Pill>Missing total: {equippedScore.totalMissing}</Pill>
+                      <Pill>Over cap: {equippedScore.totalWaste}</Pill>
                       <Pill>
                         Deficit penalty: {equippedScore.deficitPenalty}
                       </Pill>
@@ -933,12 +2442,249 @@ export default function App() {
                     <div className="mt-2 text-gray-600">
                       Tip: If “Missing total” isn’t 0, you’re below the
                       target(s). The optimizer prioritizes eliminating deficits
-                      first.
+                      first, then avoids points wasted above a cap.
                     </div>
                   </div>
                 </div>
               </div>
             </Section>
+
+            <Section
+              title="Upgrade Advisor"
+              right={
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Compare with rank
+                    <select
+                      value={projectedRank}
+                      onChange={(e) => setProjectedRank(Number(e.target.value))}
+                      className="rounded-xl border px-2 py-1 text-sm"
+                    >
+                      {Array.from({ length: MAX_RANK }, (_, i) => i + 1).map(
+                        (r) => (
+                          <option key={r} value={r}>
+                            R{r}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={showAllSwaps}
+                      onChange={(e) => setShowAllSwaps(e.target.checked)}
+                    />
+                    Show all swaps
+                  </label>
+                </div>
+              }
+            >
+              {items.length === 0 ? (
+                <div className="text-sm text-gray-600">
+                  Add items to see which single swap helps most.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="text-sm text-gray-700">
+                    {bestSwap ? (
+                      <>
+                        Best single swap: <b>{bestSwap.option.item.name}</b> in{" "}
+                        {bestSwap.slot} (score{" "}
+                        {formatSigned(bestSwap.option.scoreDelta, 1)}, missing{" "}
+                        {formatSigned(bestSwap.option.missingDelta)}).
+                      </>
+                    ) : (
+                      <>No single swap improves the score of this build.</>
+                    )}
+                    {SLOTS.some((s) => locked[s]) && (
+                      <span className="text-gray-500">
+                        {" "}
+                        Locked slots are left out.
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                    {upgrades.map((u) => {
+                      const shown = showAllSwaps
+                        ? u.options
+                        : u.options.filter((o) => o.scoreDelta > 0).slice(0, 3);
+                      const ranked = rankProjections.get(u.slot);
+                      const bestOption = u.options[0];
+                      return (
+                        <div key={u.slot} className="rounded-2xl border p-3">
+                          <div className="mb-2 flex items-center justify-between gap-2">
+                            <div className="text-sm font-semibold">
+                              {u.slot}
+                            </div>
+                            <div className="truncate text-xs text-gray-600">
+                              {u.current ? u.current.name : "(not equipped)"}
+                            </div>
+                          </div>
+                          {ranked && (
+                            <div className="mb-2 rounded-xl bg-gray-50 px-2 py-2 text-xs">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium">
+                                  Upgrade to R{projectedRank}
+                                </span>
+                                <Pill>
+                                  Score {formatSigned(ranked.scoreDelta, 1)}
+                                </Pill>
+                                <Pill>
+                                  Missing {formatSigned(ranked.missingDelta)}
+                                </Pill>
+                              </div>
+                              <div className="mt-1 text-gray-600">
+                                {!bestOption
+                                  ? "No swap to compare with."
+                                  : ranked.scoreDelta >= bestOption.scoreDelta
+                                  ? `Beats the best swap (${formatSigned(
+                                      bestOption.scoreDelta,
+                                      1
+                                    )}).`
+                                  : `${
+                                      bestOption.item.name
+                                    } does better (${formatSigned(
+                                      bestOption.scoreDelta,
+                                      1
+                                    )}).`}
+                              </div>
+                            </div>
+                          )}
+                          {shown.length === 0 ? (
+                            <div className="text-xs text-gray-600">
+                              {u.options.length === 0
+                                ? "No other items for this slot."
+                                : "No improving swap."}
+                            </div>
+                          ) : (
+                            <div className="space-y-2">
+                              {shown.map((o) => (
+                                <div
+                                  key={o.item.id}
+                                  className="rounded-xl border px-2 py-2 text-xs"
+                                >
+                                  <div className="flex items-center justify-between gap-2">
+                                    <div className="truncate font-medium">
+                                      {o.item.name}
+                                    </div>
+                                    <TextButton
+                                      onClick={() =>
+                                        setEquippedForSlot(u.slot, o.item.id)
+                                      }
+                                    >
+                                      Swap
+                                    </TextButton>
+                                  </div>
+                                  <div className="mt-1 flex flex-wrap gap-2">
+                                    <Pill>
+                                      Score {formatSigned(o.scoreDelta, 1)}
+                                    </Pill>
+                                    <Pill>
+                                      Missing {formatSigned(o.missingDelta)}
+                                    </Pill>
+                                    {o.wasteDelta !== 0 && (
+                                      <Pill>
+                                        Over cap {formatSigned(o.wasteDelta)}
+                                      </Pill>
+                                    )}
+                                  </div>
+                                  {o.changes.length > 0 && (
+                                    <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                                      {o.changes.map((c) => (
+                                        <span
+                                          key={c.name}
+                                          className={
+                                            c.after < c.before
+                                              ? "text-green-700"
+                                              : "text-red-600"
+                                          }
+                                        >
+                                          {c.name}: {c.before} → {c.after}{" "}
+                                          missing
+                                          {o.closes.includes(c.name) &&
+                                            " (closes)"}
+                                          {o.opens.includes(c.name) &&
+                                            " (opens)"}
+                                        </span>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </Section>
+
+            <Section
+              title="Reroll Simulator"
+              right={
+                rerollRun ? (
+                  <TextButton onClick={cancelRerolls}>Cancel</TextButton>
+                ) : (
+                  <PrimaryButton
+                    onClick={simulateRerolls}
+                    disabled={equippedItems.length === 0}
+                  >
+                    Simulate
+                  </PrimaryButton>
+                )
+              }
+            >
+              <div className="text-sm text-gray-700">
+                Rerolls each line of the equipped items 1000 times over its
+                slot's roll ranges and ranks the lines by the chance that every
+                target is met afterwards, then by the average score change.
+              </div>
+              {rerollRun && (
+                <div className="mt-3 text-sm text-gray-700">
+                  Simulating… {rerollRun.done}/{rerollRun.total} lines
+                </div>
+              )}
+              {rerolls && (
+                <div className="mt-3 max-h-80 space-y-2 overflow-auto">
+                  {rerolls.length === 0 ? (
+                    <div className="text-sm text-gray-600">
+                      No lines to reroll.
+                    </div>
+                  ) : (
+                    rerolls.slice(0, 10).map((r) => (
+                      <div
+                        key={r.line.id}
+                        className="rounded-xl border px-3 py-2 text-xs"
+                      >
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm font-medium">
+                            {r.item.name}
+                          </span>
+                          <span className="text-gray-700">
+                            {r.line.name} +
+                            {formatBuffValue(r.line.name, r.line.value)}
+                          </span>
+                          <RollQuality slot={r.item.slot} line={r.line} />
+                        </div>
+                        <div className="mt-1 flex flex-wrap gap-2">
+                          <Pill>
+                            Targets met {formatShare(r.pMeetsTargets)}
+                            {r.meetsNow && " (met now)"}
+                          </Pill>
+                          <Pill>Improves {formatShare(r.pImproves)}</Pill>
+                          <Pill>
+                            Avg score {formatSigned(r.expectedGain, 1)}
+                          </Pill>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </Section>
           </div>
 
           {/* Right column */}
@@ -979,20 +2725,97 @@ export default function App() {
                     </label>
                     <select
                       value={draftSlot}
-                      onChange={(e) => setDraftSlot(e.target.value as SlotKey)}
+                      onChange={(e) => setDraftSlot(e.target.value as SlotType)}
                       className="w-full rounded-xl border px-3 py-2 text-sm"
                     >
-                      {SLOTS.map((s) => (
+                      {SLOT_TYPES.map((s) => (
                         <option key={s} value={s}>
                           {s}
                         </option>
                       ))}
                     </select>
                   </div>
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600">
+                      Gear set
+                    </label>
+                    <select
+                      value={draftSet}
+                      onChange={(e) => setDraftSet(e.target.value)}
+                      className="w-full rounded-xl border px-3 py-2 text-sm"
+                    >
+                      <option value="">No set</option>
+                      {GEAR_SETS.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.name}
+                        </option>
+                      ))}
+                      {draftSet && !lookupGearSet(draftSet) && (
+                        <option value={draftSet}>
+                          Unknown set ({draftSet})
+                        </option>
+                      )}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Rarity
+                      </label>
+                      <select
+                        value={draftRarity}
+                        onChange={(e) =>
+                          setDraftRarity(e.target.value as Rarity | "")
+                        }
+                        className="w-full rounded-xl border px-3 py-2 text-sm"
+                      >
+                        <option value="">Not set</option>
+                        {RARITIES.map((r) => (
+                          <option key={r.id} value={r.id}>
+                            {r.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Level (1–{MAX_LEVEL})
+                      </label>
+                      <Input
+                        value={draftLevel}
+                        onChange={setDraftLevel}
+                        placeholder="Not set"
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Rank (0–{MAX_RANK})
+                      </label>
+                      <Input
+                        value={draftRank}
+                        onChange={setDraftRank}
+                        placeholder="Not set"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draftExcluded}
+                      onChange={(e) => setDraftExcluded(e.target.checked)}
+                    />
+                    Exclude from optimizer (e.g., reserved for another
+                    character)
+                  </label>
 
                   <div className="rounded-2xl border p-3">
                     <div className="mb-2 flex items-center justify-between">
-                      <div className="text-sm font-semibold">Buff lines</div>
+                      <div>
+                        <div className="text-sm font-semibold">Buff lines</div>
+                        <div className="text-xs text-gray-500">
+                          Base values; rarity, level and rank scale them.
+                        </div>
+                      </div>
                       <TextButton onClick={addBuffLine}>+ Add line</TextButton>
                     </div>
 
@@ -1006,6 +2829,7 @@ export default function App() {
                                 updateBuffLine(b.id, { name: v })
                               }
                               placeholder="Buff name (e.g., Momentum)"
+                              list="buff-catalog"
                             />
                           </div>
                           <div className="col-span-3">
@@ -1016,6 +2840,9 @@ export default function App() {
                               }
                               placeholder="Value"
                             />
+                            <div className="mt-0.5 text-right text-xs">
+                              <RollQuality slot={draftSlot} line={b} />
+                            </div>
                           </div>
                           <div className="col-span-2 flex items-center justify-center">
                             <label className="flex items-center gap-2 text-xs text-gray-700">
@@ -1041,9 +2868,27 @@ export default function App() {
                               ✕
                             </button>
                           </div>
+                          {b.name.trim() &&
+                            (!lookupBuff(b.name) ? (
+                              <div className="col-span-12 text-xs text-amber-600">
+                                Unknown buff: not in the catalog, so it only
+                                sums with lines spelled the same way.
+                              </div>
+                            ) : canonicalBuffName(b.name) !== b.name.trim() ? (
+                              <div className="col-span-12 text-xs text-gray-600">
+                                Saved as <b>{canonicalBuffName(b.name)}</b>.
+                              </div>
+                            ) : null)}
                         </div>
                       ))}
                     </div>
+                    <datalist id="buff-catalog">
+                      {BUFF_CATALOG.map((d) => (
+                        <option key={d.id} value={d.name}>
+                          {d.aliases.join(", ")}
+                        </option>
+                      ))}
+                    </datalist>
 
                     <div className="mt-2 text-xs text-gray-600">
                       Note: Items usually have 5–6 lines, but this tool allows
@@ -1063,8 +2908,10 @@ export default function App() {
                   </PrimaryButton>
                   <TextButton
                     onClick={() => {
-                      setTargets({});
-                      setTargetsText("");
+                      dispatch({
+                        type: "loadout/update",
+                        patch: { targets: {} },
+                      });
                     }}
                   >
                     Clear
@@ -1074,30 +2921,258 @@ export default function App() {
             >
               <div className="text-sm text-gray-700">
                 Enter one target per line. Formats supported: <b>Buff: 100</b>{" "}
-                or <b>Buff 100</b>.
+                or <b>Buff 100</b>; a range <b>Buff: 25..40</b> or cap only{" "}
+                <b>Buff: ..40</b>; append <b>x2</b> to double a target's
+                priority.
               </div>
               <textarea
                 value={targetsText}
                 onChange={(e) => setTargetsText(e.target.value)}
                 rows={8}
                 className="mt-2 w-full rounded-2xl border p-3 text-sm"
-                placeholder={"Momentum: 100\nCrit Rate: 25\nDefense: 300"}
+                placeholder={
+                  "Momentum: 100\nCrit Rate: 25..40\nDefense: 300 x2"
+                }
               />
               <div className="mt-2 text-xs text-gray-600">
                 Your build totals will be compared against these targets
-                (deficits highlighted in red). The optimizer prioritizes meeting
-                targets, then maximizing ★ recommended lines.
+                (deficits highlighted in red); derived stats from Scoring can be
+                targets too. The optimizer prioritizes meeting targets, then
+                maximizing ★ recommended lines.
+              </div>
+            </Section>
+
+            <Section title="Scoring">
+              <div className="space-y-3">
+                <div>
+                  <label className="mb-1 block text-xs font-medium text-gray-600">
+                    Preset
+                  </label>
+                  <select
+                    value={scoringPreset}
+                    onChange={(e) => {
+                      const preset = SCORING_PRESETS.find(
+                        (p) => p.name === e.target.value
+                      );
+                      if (preset) {
+                        // Presets only set weights; formulas and the
+                        // scaling table stay.
+                        dispatch({
+                          type: "scoring/set",
+                          scoring: sanitizeScoring({
+                            ...preset.config,
+                            derived: scoring.derived,
+                            objective: scoring.objective,
+                            scaling: scoring.scaling,
+                          }),
+                        });
+                      }
+                    }}
+                    className="w-full rounded-xl border px-3 py-2 text-sm"
+                  >
+                    {SCORING_PRESETS.map((p) => (
+                      <option key={p.name} value={p.name}>
+                        {p.name}
+                      </option>
+                    ))}
+                    {scoringPreset === "Custom" && (
+                      <option value="Custom">Custom</option>
+                    )}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {SCORING_FIELDS.map((f) => (
+                    <div key={f.key}>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        {f.label}
+                      </label>
+                      <NumberInput
+                        value={scoring[f.key]}
+                        onChange={(v) =>
+                          dispatch({
+                            type: "scoring/set",
+                            scoring: sanitizeScoring({
+                              ...scoring,
+                              [f.key]: v,
+                            }),
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-600">
+                  Score = −deficit weight × Σ missing^exponent − over-cap weight
+                  × Σ wasted + ★ weight × ★ lines + targeted weight × targeted
+                  points (up to caps) + line weight × lines + objective weight ×
+                  objective (once every minimum is met).
+                </div>
+                <div className="rounded-2xl border p-3">
+                  <div className="mb-2 flex items-center justify-between">
+                    <div className="text-sm font-semibold">Derived stats</div>
+                    <PrimaryButton onClick={applyDerivedText}>
+                      Apply
+                    </PrimaryButton>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    One <b>name = formula</b> per line over buff totals, using +
+                    − × / ( ) and min/max. Write buffs without spaces (CritRate)
+                    or in brackets ([Crit Rate]); a stat can use the ones above
+                    it. Targets can name derived stats too.
+                  </div>
+                  <textarea
+                    value={derivedText}
+                    onChange={(e) => setDerivedText(e.target.value)}
+                    rows={4}
+                    className="mt-2 w-full rounded-2xl border p-3 font-mono text-xs"
+                    placeholder="effective_dmg = Attack * (1 + CritRate/100 * CritDmg/100)"
+                  />
+                  {derivedErrors.length > 0 && (
+                    <ul className="mt-1 text-xs text-red-600">
+                      {derivedErrors.map((e, i) => (
+                        <li key={i}>
+                          {e.name ? `${e.name}: ` : ""}
+                          {e.text}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="mt-2 grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Maximize
+                      </label>
+                      <select
+                        value={scoring.objective?.stat ?? ""}
+                        onChange={(e) =>
+                          setObjective(
+                            e.target.value,
+                            scoring.objective?.weight ?? 1
+                          )
+                        }
+                        className="w-full rounded-xl border px-3 py-2 text-sm"
+                      >
+                        <option value="">Nothing</option>
+                        {derivedNames.map((n) => (
+                          <option key={n} value={n}>
+                            {n}
+                          </option>
+                        ))}
+                        {scoring.objective &&
+                          !derivedNames.includes(scoring.objective.stat) && (
+                            <option value={scoring.objective.stat}>
+                              {scoring.objective.stat} (not defined)
+                            </option>
+                          )}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Objective weight
+                      </label>
+                      <NumberInput
+                        value={scoring.objective?.weight ?? 1}
+                        onChange={(v) =>
+                          setObjective(scoring.objective?.stat ?? "", v)
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="rounded-2xl border p-3">
+                  <div className="mb-2 flex items-center justify-between">
+                    <div className="text-sm font-semibold">Value scaling</div>
+                    <TextButton
+                      onClick={() => setScaling(DEFAULT_SCALING)}
+                      disabled={!scoring.scaling}
+                    >
+                      Reset
+                    </TextButton>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    Effective value = base × rarity × (1 + level step × (level −
+                    1)) × (1 + rank step × rank). Items without rarity, level or
+                    rank keep their values.
+                  </div>
+                  <div className="mt-2 grid grid-cols-2 gap-2">
+                    {RARITIES.map((r) => (
+                      <div key={r.id}>
+                        <label className="mb-1 block text-xs font-medium text-gray-600">
+                          {r.name} ×
+                        </label>
+                        <NumberInput
+                          value={scalingTable.rarity[r.id]}
+                          onChange={(v) =>
+                            setScaling({
+                              ...scalingTable,
+                              rarity: { ...scalingTable.rarity, [r.id]: v },
+                            })
+                          }
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Level step (% per level)
+                      </label>
+                      <NumberInput
+                        value={percentOf(scalingTable.levelStep)}
+                        onChange={(v) =>
+                          setScaling({ ...scalingTable, levelStep: v / 100 })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-gray-600">
+                        Rank step (% per rank)
+                      </label>
+                      <NumberInput
+                        value={percentOf(scalingTable.rankStep)}
+                        onChange={(v) =>
+                          setScaling({ ...scalingTable, rankStep: v / 100 })
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
               </div>
             </Section>
 
             <Section title="Optimizer Result">
-              {!optResult ? (
+              {optError && (
+                <div className="mb-3 rounded-2xl border bg-white p-3 text-sm text-red-600">
+                  Optimizer failed: {optError}
+                </div>
+              )}
+              {optRun ? (
+                <div className="space-y-2 text-sm text-gray-700">
+                  <div>Searching…</div>
+                  <div className="flex flex-wrap gap-2">
+                    <Pill>Slot: {optRun.progress?.slot ?? "—"}</Pill>
+                    <Pill>Scored: {optRun.progress?.scored ?? 0}</Pill>
+                    <Pill>
+                      Best so far:{" "}
+                      {optRun.progress?.bestScore != null
+                        ? optRun.progress.bestScore.toFixed(1)
+                        : "—"}
+                    </Pill>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    Cancel keeps the best build found so far.
+                  </div>
+                </div>
+              ) : !optResult ? (
                 <div className="text-sm text-gray-600">
-                  Click <b>Optimize & Equip Best</b> to auto-select one item per
-                  slot.
+                  Click <b>Optimize</b> to search for the best builds, then{" "}
+                  <b>Equip</b> the one you want.
                 </div>
               ) : (
                 <div className="space-y-3">
+                  {optResult.cancelled && (
+                    <div className="rounded-2xl border bg-white p-3 text-sm text-gray-700">
+                      Search cancelled. Showing the best build found so far.
+                    </div>
+                  )}
                   {optResult.missingSlots.length > 0 && (
                     <div className="rounded-2xl border bg-white p-3 text-sm text-gray-700">
                       Missing items for slots:{" "}
@@ -1105,69 +3180,432 @@ export default function App() {
                       one item per slot to fully optimize.
                     </div>
                   )}
+                  {optResult.unresolvedPins.length > 0 && (
+                    <div className="rounded-2xl border border-amber-300 bg-amber-50 p-3 text-sm text-gray-800">
+                      Locked slots left empty because their item was deleted or
+                      no longer fits:{" "}
+                      <b>{optResult.unresolvedPins.join(", ")}</b>. Unlock them
+                      or equip another item.
+                    </div>
+                  )}
 
                   <div className="rounded-2xl border p-3">
-                    <div className="text-sm font-semibold">
-                      Best build summary
-                    </div>
-                    <div className="mt-2 flex flex-wrap gap-2">
-                      <Pill>
-                        Recommended lines:{" "}
-                        {optResult.bestScore.recommendedLines}
-                      </Pill>
-                      <Pill>
-                        Missing total: {optResult.bestScore.totalMissing}
-                      </Pill>
-                      <Pill>
-                        Deficit penalty: {optResult.bestScore.deficitPenalty}
-                      </Pill>
-                    </div>
-                    <div className="mt-2 text-xs text-gray-600">
-                      Search settings: topK/slot=
-                      {optResult.searched.topKPerSlot}, beamWidth=
-                      {optResult.searched.beamWidth}
+                    <div className="text-xs text-gray-600">
+                      Mode:{" "}
+                      <b>
+                        {OPTIMIZER_MODES.find((m) => m.value === optResult.mode)
+                          ?.label ?? optResult.mode}
+                      </b>
                     </div>
+                    {optResult.exact ? (
+                      <div className="mt-1 text-xs text-gray-600">
+                        {optResult.exact.proven ? (
+                          <>Proven optimal.</>
+                        ) : (
+                          <>
+                            Stopped at search budget; optimality gap ≤{" "}
+                            {optResult.exact.gap.toFixed(1)} score points.
+                          </>
+                        )}{" "}
+                        Nodes={optResult.exact.nodes}, time=
+                        {optResult.exact.elapsedMs}ms
+                      </div>
+                    ) : (
+                      <div className="mt-1 text-xs text-gray-600">
+                        Search settings: topK/slot=
+                        {optResult.searched.topKPerSlot}, beamWidth=
+                        {optResult.searched.beamWidth}
+                      </div>
+                    )}
                   </div>
 
-                  <div className="rounded-2xl border p-3">
-                    <div className="mb-2 text-sm font-semibold">
-                      Chosen items
-                    </div>
-                    <div className="space-y-2">
-                      {SLOTS.map((slot) => {
-                        const it = optResult.best.find((x) => x.slot === slot);
-                        return (
+                  <div className="flex gap-3 overflow-x-auto pb-1">
+                    {optResult.builds.map((build, idx) => {
+                      const isEquipped =
+                        buildKey(build.items) === buildKey(equippedItems);
+                      const placed = placeItems(build.items, equipped);
+                      return (
+                        <div
+                          key={buildKey(build.items)}
+                          className="w-64 shrink-0 rounded-2xl border p-3"
+                        >
+                          <div className="mb-2 flex items-center justify-between gap-2">
+                            <div className="text-sm font-semibold">
+                              Build #{idx + 1}
+                            </div>
+                            {isEquipped ? (
+                              <Pill>Equipped</Pill>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <TextButton
+                                  onClick={() => {
+                                    setCompareA("equipped");
+                                    setCompareB(`opt:${idx}`);
+                                  }}
+                                >
+                                  Compare
+                                </TextButton>
+                                <PrimaryButton
+                                  onClick={() => equipBuild(build.items)}
+                                >
+                                  Equip
+                                </PrimaryButton>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            <Pill>Score: {build.score.score.toFixed(1)}</Pill>
+                            <Pill>
+                              Recommended lines: {build.score.recommendedLines}
+                            </Pill>
+                            <Pill>
+                              Missing total: {build.score.totalMissing}
+                            </Pill>
+                            <Pill>Over cap: {build.score.totalWaste}</Pill>
+                            <Pill>
+                              Deficit penalty: {build.score.deficitPenalty}
+                            </Pill>
+                          </div>
+                          <div className="mt-2 space-y-1">
+                            {SLOTS.map((slot) => {
+                              const it = build.items.find(
+                                (x) => x.id === placed[slot]
+                              );
+                              return (
+                                <div
+                                  key={slot}
+                                  className="flex items-center justify-between gap-2 rounded-xl border px-2 py-1 text-xs"
+                                >
+                                  <div className="text-gray-600">{slot}</div>
+                                  <div className="font-medium">
+                                    {it ? it.name : "(none)"}
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {Object.keys(targets).length > 0 && (
+                            <table className="mt-2 w-full text-xs">
+                              <tbody>
+                                {computeDeficits(build.score.totals, targets)
+                                  .rows.slice()
+                                  .sort((a, b) => a.name.localeCompare(b.name))
+                                  .map((r) => (
+                                    <tr key={r.name}>
+                                      <td className="py-0.5">{r.name}</td>
+                                      <td className="py-0.5 text-right">
+                                        {r.current}
+                                      </td>
+                                      <td
+                                        className={
+                                          "py-0.5 text-right " +
+                                          targetDeltaClass(r)
+                                        }
+                                      >
+                                        {formatTargetDelta(r)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {farming.length > 0 && (
+                    <div className="rounded-2xl border p-3">
+                      <div className="text-sm font-semibold">
+                        What to farm next
+                      </div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        Build #1 still misses {optResult.bestScore.totalMissing}{" "}
+                        point(s). A new item for one of these slots, replacing
+                        what build #1 has there, would close every deficit. Line
+                        sizes are judged against your inventory.
+                      </div>
+                      <div className="mt-2 space-y-2">
+                        {farming.slice(0, 4).map((f, idx) => (
                           <div
-                            key={slot}
-                            className="flex items-center justify-between gap-2 rounded-xl border px-3 py-2 text-sm"
+                            key={f.slot}
+                            className="rounded-xl border px-2 py-2 text-xs"
                           >
-                            <div className="text-gray-600">{slot}</div>
-                            <div className="font-medium">
-                              {it ? it.name : "(none)"}
+                            <div className="flex items-center justify-between gap-2">
+                              <div>
+                                <span className="font-medium">
+                                  {idx + 1}. {f.slot}
+                                </span>
+                                {f.replaces && (
+                                  <span className="text-gray-600">
+                                    {" "}
+                                    (replaces {f.replaces.name})
+                                  </span>
+                                )}
+                              </div>
+                              <Pill>
+                                {f.linesNeeded === null
+                                  ? "Some buffs never seen"
+                                  : f.fits
+                                  ? `${f.linesNeeded} line(s)`
+                                  : `${f.linesNeeded} lines: more than one item`}
+                              </Pill>
                             </div>
+                            <ul className="mt-1 space-y-0.5">
+                              {f.needs.map((n) => (
+                                <li key={n.name}>
+                                  {n.name} +{formatBuffValue(n.name, n.value)}
+                                  <span className="text-gray-500">
+                                    {n.bestSeen === null
+                                      ? " — no line seen in your inventory"
+                                      : ` — ${
+                                          n.lines
+                                        } line(s); best seen ${formatBuffValue(
+                                          n.name,
+                                          n.bestSeen
+                                        )}`}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
                           </div>
-                        );
-                      })}
+                        ))}
+                      </div>
                     </div>
+                  )}
+                </div>
+              )}
+            </Section>
+
+            <Section title="Compare Builds">
+              {!compareSideB || !comparison ? (
+                <div className="text-sm text-gray-600">
+                  Run the optimizer or add another loadout to compare builds.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+                    {(
+                      [
+                        ["A", compareSideA.key, setCompareA],
+                        ["B", compareSideB.key, setCompareB],
+                      ] as const
+                    ).map(([side, value, set]) => (
+                      <div key={side}>
+                        <label className="mb-1 block text-xs font-medium text-gray-600">
+                          Build {side}
+                        </label>
+                        <select
+                          value={value}
+                          onChange={(e) => set(e.target.value)}
+                          className="w-full rounded-xl border px-3 py-2 text-sm"
+                        >
+                          {compareSources.map((s) => (
+                            <option key={s.key} value={s.key}>
+                              {s.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
                   </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-700">
+                    Judge against the targets of
+                    <select
+                      value={compareTargetsFrom}
+                      onChange={(e) =>
+                        setCompareTargetsFrom(e.target.value as "a" | "b")
+                      }
+                      className="rounded-xl border px-2 py-1 text-xs"
+                    >
+                      <option value="a">build A</option>
+                      <option value="b">build B</option>
+                    </select>
+                    <span className="text-gray-500">
+                      Rows in red are targets B is further from than A.
+                    </span>
+                  </div>
+                  <BuildComparisonView cmp={comparison} labelA="A" labelB="B" />
                 </div>
               )}
             </Section>
 
+            <Section
+              title="Backup & Export"
+              right={<TextButton onClick={exportJson}>Export JSON</TextButton>}
+            >
+              <div className="space-y-3">
+                <div>
+                  <label className="mb-1 block text-xs font-medium text-gray-600">
+                    Spreadsheet (CSV)
+                  </label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <TextButton onClick={() => exportCsv("inventory")}>
+                      Inventory
+                    </TextButton>
+                    <TextButton onClick={() => exportCsv("totals")}>
+                      Build totals
+                    </TextButton>
+                    <TextButton onClick={() => exportCsv("deficits")}>
+                      Deficits
+                    </TextButton>
+                  </div>
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs font-medium text-gray-600">
+                    Import a backup file
+                  </label>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) readImportFile(file);
+                      e.target.value = "";
+                    }}
+                    className="w-full text-sm"
+                  />
+                </div>
+                {importError && (
+                  <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                    {importError}
+                  </div>
+                )}
+                {importFile && importPlan && (
+                  <div className="space-y-3 rounded-xl border p-3 text-sm">
+                    <div className="font-medium">{importFile.name}</div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="mb-1 block text-xs font-medium text-gray-600">
+                          Mode
+                        </label>
+                        <select
+                          value={importMode}
+                          onChange={(e) =>
+                            setImportMode(e.target.value as ImportMode)
+                          }
+                          className="w-full rounded-xl border px-3 py-2 text-sm"
+                        >
+                          <option value="merge">Merge</option>
+                          <option value="replace">Replace everything</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="mb-1 block text-xs font-medium text-gray-600">
+                          Same ID, different data
+                        </label>
+                        <select
+                          value={importCollisions}
+                          onChange={(e) =>
+                            setImportCollisions(
+                              e.target.value as CollisionPolicy
+                            )
+                          }
+                          disabled={importMode === "replace"}
+                          className="w-full rounded-xl border px-3 py-2 text-sm disabled:opacity-50"
+                        >
+                          <option value="keep-both">Keep both</option>
+                          <option value="overwrite">Overwrite mine</option>
+                          <option value="skip">Keep mine</option>
+                        </select>
+                      </div>
+                    </div>
+                    <div className="space-y-1 text-xs text-gray-700">
+                      {(
+                        [
+                          ["Items added", importPlan.summary.itemsAdded],
+                          [
+                            "Items overwritten",
+                            importPlan.summary.itemsChanged,
+                          ],
+                          [
+                            "Items added as copies (ID in use)",
+                            importPlan.summary.itemsRenamed,
+                          ],
+                          ["Items skipped", importPlan.summary.itemsSkipped],
+                          ["Items removed", importPlan.summary.itemsRemoved],
+                          ["Loadouts added", importPlan.summary.loadoutsAdded],
+                          [
+                            "Loadouts overwritten",
+                            importPlan.summary.loadoutsChanged,
+                          ],
+                          [
+                            "Loadouts skipped",
+                            importPlan.summary.loadoutsSkipped,
+                          ],
+                          [
+                            "Loadouts removed",
+                            importPlan.summary.loadoutsRemoved,
+                          ],
+                          [
+                            "Unequipped (item no longer fits)",
+                            importPlan.summary.slotsUnequipped,
+                          ],
+                          [
+                            "Derived stats added",
+                            importPlan.summary.derivedAdded,
+                          ],
+                          [
+                            "Derived stats kept as yours (file's formula differs)",
+                            importPlan.summary.derivedConflicts,
+                          ],
+                        ] as [string, string[]][]
+                      )
+                        .filter(([, names]) => names.length > 0)
+                        .map(([label, names]) => (
+                          <div key={label}>
+                            <span className="font-medium">
+                              {label} ({names.length}):
+                            </span>{" "}
+                            {names.slice(0, 8).join(", ")}
+                            {names.length > 8 ? ", …" : ""}
+                          </div>
+                        ))}
+                      {importPlan.summary.issues.length > 0 && (
+                        <div className="text-amber-700">
+                          {importPlan.summary.issues.length} invalid entr
+                          {importPlan.summary.issues.length === 1
+                            ? "y"
+                            : "ies"}{" "}
+                          in the file will be dropped.
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <PrimaryButton onClick={applyImport}>Apply</PrimaryButton>
+                      <TextButton onClick={() => setImportFile(null)}>
+                        Cancel
+                      </TextButton>
+                    </div>
+                  </div>
+                )}
+                <div className="text-xs text-gray-600">
+                  Export saves items, loadouts and targets to a JSON file. Use
+                  it as a backup before <b>Reset</b> or to move to another
+                  browser.
+                </div>
+              </div>
+            </Section>
+
             <div className="rounded-2xl border bg-white p-4 text-xs text-gray-600">
               <div className="font-medium text-gray-700">Notes</div>
               <ul className="mt-2 list-disc space-y-1 pl-5">
                 <li>
-                  Buff names must match exactly to be summed (case-sensitive
-                  except whitespace). Keep your naming consistent.
+                  Buff names are matched through the buff catalog, so aliases
+                  and casing (e.g., “critical rate”) sum as one buff. Names not
+                  in the catalog must match exactly.
                 </li>
                 <li>
                   ★ Recommended lines matter as a tiebreaker after meeting
                   necessary buff targets.
                 </li>
                 <li>
-                  If you want different priorities (e.g., raw power), adjust{" "}
-                  <code>scoreBuild()</code> in the code.
+                  Locked slots keep their equipped item and excluded items are
+                  never picked when optimizing.
+                </li>
+                <li>
+                  If you want different priorities (e.g., raw power), pick a
+                  preset or tune the weights under <b>Scoring</b>.
                 </li>
               </ul>
             </div>
@@ -1175,8 +3613,8 @@ export default function App() {
         </div>
 
         <footer className="mt-8 text-xs text-gray-500">
-          Data is stored locally in your browser (localStorage). Export/share
-          can be added next.
+          Data is stored locally in your browser (localStorage). Use Backup &
+          Export to keep a copy; share links carry the build in the URL itself.
         </footer>
       </div>
     </div>
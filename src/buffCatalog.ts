@@ -0,0 +1,143 @@
+/**
+ * Buff catalog: canonical buff names plus the aliases players actually type.
+ * Every buff name goes through canonicalBuffName (via normalizeBuffName), so
+ * "crit rate", "Critical Rate" and "Crit Rate" all sum as one buff.
+ */
+
+export type BuffUnit = "flat" | "percent";
+
+export type BuffDef = {
+  id: string; // stable identifier, e.g. "crit_rate"
+  name: string; // display / canonical name stored on items and targets
+  aliases: string[];
+  unit: BuffUnit;
+  cap?: number; // in-game hard cap, if any
+};
+
+// Share links refer to buffs by position: append new buffs, never reorder.
+export const BUFF_CATALOG: BuffDef[] = [
+  {
+    id: "attack",
+    name: "Attack",
+    aliases: ["ATK", "Physical Attack", "Phys Atk"],
+    unit: "flat",
+  },
+  {
+    id: "elemental_attack",
+    name: "Elemental Attack",
+    aliases: ["Elem Atk", "Element Attack", "Elemental ATK"],
+    unit: "flat",
+  },
+  {
+    id: "crit_rate",
+    name: "Crit Rate",
+    aliases: ["Critical Rate", "Crit Chance", "Critical Chance", "CR"],
+    unit: "percent",
+    cap: 100,
+  },
+  {
+    id: "crit_damage",
+    name: "Crit Damage",
+    aliases: ["Critical Damage", "Crit DMG", "Critical DMG", "CD"],
+    unit: "percent",
+  },
+  {
+    id: "precision",
+    name: "Precision",
+    aliases: ["Precision Rate", "Accuracy"],
+    unit: "percent",
+    cap: 100,
+  },
+  {
+    id: "affinity_rate",
+    name: "Affinity Rate",
+    aliases: ["Affinity", "Affinity Chance"],
+    unit: "percent",
+    cap: 100,
+  },
+  {
+    id: "affinity_damage",
+    name: "Affinity Damage",
+    aliases: ["Affinity DMG"],
+    unit: "percent",
+  },
+  {
+    id: "armor_penetration",
+    name: "Armor Penetration",
+    aliases: ["Armor Pen", "Armour Penetration", "Penetration", "Pen"],
+    unit: "flat",
+  },
+  {
+    id: "damage_bonus",
+    name: "Damage Bonus",
+    aliases: ["DMG Bonus", "Damage Boost", "All Damage"],
+    unit: "percent",
+  },
+  {
+    id: "boss_damage",
+    name: "Boss Damage",
+    aliases: ["Damage vs Bosses", "Boss DMG"],
+    unit: "percent",
+  },
+  {
+    id: "momentum",
+    name: "Momentum",
+    aliases: [],
+    unit: "flat",
+  },
+  {
+    id: "defense",
+    name: "Defense",
+    aliases: ["DEF", "Defence"],
+    unit: "flat",
+  },
+  {
+    id: "hp",
+    name: "HP",
+    aliases: ["Max HP", "Health", "Max Health"],
+    unit: "flat",
+  },
+  {
+    id: "healing_bonus",
+    name: "Healing Bonus",
+    aliases: ["Healing", "Heal Bonus", "Healing Boost"],
+    unit: "percent",
+  },
+];
+
+/** Lookup key: case, spacing and punctuation are ignored. */
+function catalogKey(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9%]+/g, "");
+}
+
+const BY_KEY = new Map<string, BuffDef>();
+for (const def of BUFF_CATALOG) {
+  for (const n of [def.id, def.name, ...def.aliases]) {
+    BY_KEY.set(catalogKey(n), def);
+  }
+}
+
+export function lookupBuff(name: string): BuffDef | null {
+  const key = catalogKey(name);
+  return key ? BY_KEY.get(key) ?? null : null;
+}
+
+// Buff names are canonicalized in tight scoring loops, so cache the results.
+const canonicalCache = new Map<string, string>();
+
+/**
+ * Catalog display name for known buffs; unknown names are trimmed with inner
+ * whitespace collapsed and otherwise kept as typed.
+ */
+export function canonicalBuffName(name: string) {
+  let out = canonicalCache.get(name);
+  if (out === undefined) {
+    out = lookupBuff(name)?.name ?? name.trim().replace(/\s+/g, " ");
+    canonicalCache.set(name, out);
+  }
+  return out;
+}
+
+export function formatBuffValue(name: string, value: number) {
+  return lookupBuff(name)?.unit === "percent" ? `${value}%` : `${value}`;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "@jest/globals";
+import { detectFormat, parseBulkItems } from "./bulkImport";
+
+const lines = (res: ReturnType<typeof parseBulkItems>) =>
+  res.items.map(({ item }) => [
+    item.name,
+    item.slot,
+    item.buffs.map((b) => [b.name, b.value, b.recommended]),
+  ]);
+
+const messages = (res: ReturnType<typeof parseBulkItems>) =>
+  res.messages.map((m) => [m.line, m.level]);
+
+describe("detectFormat", () => {
+  it("picks CSV only when the first line has slot and buff columns", () => {
+    expect(detectFormat("\nItem,Slot,Buff,Value\n")).toBe("csv");
+    expect(detectFormat("Jade Sword | Weapon\nAttack: 1")).toBe("text");
+  });
+});
+
+describe("parseBulkItems (text)", () => {
+  it("reads headers, buff lines, ★ marks, sets and comments", () => {
+    const res = parseBulkItems(
+      [
+        "# my gear",
+        "Jade Sword | Weapon 2 | Jade Ward",
+        "Crit Rate: 5%*",
+        "ATK = +120",
+        "",
+        "Cap | Helmet",
+        "Defense: 30",
+      ].join("\n")
+    );
+    expect(res.format).toBe("text");
+    expect(lines(res)).toEqual([
+      [
+        "Jade Sword",
+        "Weapon",
+        [
+          ["Crit Rate", 5, true],
+          ["Attack", 120, false],
+        ],
+      ],
+      ["Cap", "Helmet", [["Defense", 30, false]]],
+    ]);
+    expect(res.items[0].item.set).toBe("jade_ward");
+    expect(res.items.map((x) => x.line)).toEqual([2, 6]);
+    expect(res.messages).toEqual([]);
+  });
+
+  it("reports malformed lines by line number and skips rejected items", () => {
+    const res = parseBulkItems(
+      [
+        "Attack: 5",
+        "Thing | Cape",
+        "Attack: 5",
+        "Cap | Helmet",
+        "Defense: lots",
+        "just words",
+        "Mystery Buff: 3",
+      ].join("\n")
+    );
+    expect(lines(res)).toEqual([
+      ["Cap", "Helmet", [["Mystery Buff", 3, false]]],
+    ]);
+    expect(messages(res)).toEqual([
+      [1, "error"], // buff before any header
+      [2, "error"], // unknown slot
+      [5, "error"], // not a number
+      [6, "error"], // neither header nor buff
+      [7, "warning"], // not in the catalog
+    ]);
+  });
+
+  it("warns about items without buff lines", () => {
+    const res = parseBulkItems("Empty | Vest");
+    expect(res.items).toHaveLength(1);
+    expect(messages(res)).toEqual([[1, "warning"]]);
+  });
+});
+
+describe("parseBulkItems (CSV)", () => {
+  it("groups consecutive rows of an item and reads quoted cells", () => {
+    const res = parseBulkItems(
+      [
+        "Item,Slot,Buff,Value,Recommended,Rarity,Level,Rank",
+        '"Blade, Jade",Weapon,Attack,120,,Epic,40,2',
+        '"Blade, Jade",Weapon,Crit Rate,5%,yes,,,',
+        "Cap,Helmet,Defense,30,,,,",
+      ].join("\r\n")
+    );
+    expect(res.format).toBe("csv");
+    expect(lines(res)).toEqual([
+      [
+        "Blade, Jade",
+        "Weapon",
+        [
+          ["Attack", 120, false],
+          ["Crit Rate", 5, true],
+        ],
+      ],
+      ["Cap", "Helmet", [["Defense", 30, false]]],
+    ]);
+    const blade = res.items[0].item;
+    expect([blade.rarity, blade.level, blade.rank]).toEqual(["epic", 40, 2]);
+    expect(res.messages).toEqual([]);
+  });
+
+  it("reports a header without the required columns", () => {
+    const res = parseBulkItems("Item,Slot,Buff\nCap,Helmet,Defense");
+    expect(res.items).toEqual([]);
+    expect(res.messages[0].text).toMatch(/missing column\(s\): value/);
+  });
+
+  it("reports bad rows and scaling cells by line number", () => {
+    const res = parseBulkItems(
+      [
+        "item,slot,buff,value,level",
+        "Cap,Helmet,Defense,abc,",
+        "Cap,Helmet,HP,100,",
+        "Boot,Feet,HP,100,",
+        "Arm,Arms,Attack,5,999",
+      ].join("\n")
+    );
+    expect(lines(res)).toEqual([
+      ["Cap", "Helmet", [["HP", 100, false]]],
+      ["Arm", "Arms", [["Attack", 5, false]]],
+    ]);
+    expect(res.items[1].item.level).toBeUndefined();
+    expect(messages(res)).toEqual([
+      [2, "error"],
+      [4, "error"],
+      [5, "warning"],
+    ]);
+  });
+});
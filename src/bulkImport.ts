@@ -0,0 +1,359 @@
+import { lookupBuff } from "./buffCatalog";
+import { parseCsv } from "./csv";
+import { GEAR_SETS, lookupGearSet } from "./gearSets";
+import {
+  BuffLine,
+  Item,
+  MAX_ITEM_LINES,
+  SLOT_TYPES,
+  normalizeBuffName,
+  parseSlotType,
+  uid,
+} from "./model";
+import { MAX_LEVEL, MAX_RANK, RARITIES } from "./scaling";
+
+/**
+ * Bulk item import from a text block or CSV.
+ *
+ * Text block: an "Item name | Slot" header (optionally "| Gear set") followed
+ * by "Buff: value" lines; the slot is a slot type ("Support") or any slot of
+ * that type ("Support 2"); a trailing * marks a recommended line. Blank lines
+ * and # comments are ignored.
+ *
+ *   Jade Sword | Weapon | Jade Ward
+ *   Crit Rate: 5*
+ *   Attack: 120
+ *
+ * CSV: a header row with item, slot, buff, value and (optional) recommended,
+ * set, rarity, level and rank columns, one buff line per row; consecutive rows
+ * with the same item and slot make one item, whose set, rarity, level and rank
+ * come from its first row. Values are base values either way.
+ */
+
+export type BulkFormat = "text" | "csv";
+
+export type BulkMessage = {
+  line: number; // 1-based
+  level: "error" | "warning";
+  text: string;
+};
+
+export type BulkItem = {
+  line: number; // header line (text) or first row (CSV)
+  item: Item;
+};
+
+export type BulkParseResult = {
+  format: BulkFormat;
+  items: BulkItem[];
+  messages: BulkMessage[];
+};
+
+function parseValue(raw: string): number | null {
+  const s = raw.trim().replace(/^\+/, "").replace(/%$/, "").trim();
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+const TRUTHY = new Set(["1", "y", "yes", "true", "x", "*", "★"]);
+
+export function detectFormat(text: string): BulkFormat {
+  const first = text.split("\n").find((l) => l.trim() !== "") ?? "";
+  const cols = first
+    .toLowerCase()
+    .split(",")
+    .map((c) => c.trim().replace(/^"|"$/g, ""));
+  return cols.includes("slot") && cols.includes("buff") ? "csv" : "text";
+}
+
+export function parseBulkItems(text: string): BulkParseResult {
+  const format = detectFormat(text);
+  return format === "csv" ? parseCsvItems(text) : parseTextItems(text);
+}
+
+// -----------------------------
+// Shared item assembly
+// -----------------------------
+
+type Draft = { line: number; item: Item } | null;
+
+function makeBuff(
+  rawName: string,
+  value: number,
+  recommended: boolean,
+  line: number,
+  messages: BulkMessage[]
+): BuffLine | null {
+  const name = normalizeBuffName(rawName);
+  if (!name) {
+    messages.push({ line, level: "error", text: "Buff name is empty" });
+    return null;
+  }
+  if (!lookupBuff(name)) {
+    messages.push({
+      line,
+      level: "warning",
+      text: `Unknown buff "${name}": not in the catalog, kept as typed`,
+    });
+  }
+  return { id: uid("b"), name, value, recommended };
+}
+
+function finishItem(draft: Draft, items: BulkItem[], messages: BulkMessage[]) {
+  if (!draft) return;
+  // More lines than usual only warns.
+  const n = draft.item.buffs.length;
+  if (n === 0) {
+    messages.push({
+      line: draft.line,
+      level: "warning",
+      text: `"${draft.item.name}" has no buff lines`,
+    });
+  } else if (n > MAX_ITEM_LINES) {
+    messages.push({
+      line: draft.line,
+      level: "warning",
+      text: `"${draft.item.name}" has ${n} buff lines (usually 5–6)`,
+    });
+  }
+  items.push(draft);
+}
+
+function newDraft(
+  name: string,
+  rawSlot: string,
+  rawSet: string,
+  line: number,
+  messages: BulkMessage[]
+): Draft | "invalid" {
+  if (!name) {
+    messages.push({ line, level: "error", text: "Item name is empty" });
+    return "invalid";
+  }
+  const slot = parseSlotType(rawSlot);
+  if (!slot) {
+    messages.push({
+      line,
+      level: "error",
+      text: `Unknown slot "${rawSlot}" (expected one of: ${SLOT_TYPES.join(
+        ", "
+      )})`,
+    });
+    return "invalid";
+  }
+  const item: Item = { id: uid("item"), name, slot, buffs: [] };
+  if (rawSet) {
+    const set = lookupGearSet(rawSet);
+    if (set) item.set = set.id;
+    else {
+      messages.push({
+        line,
+        level: "warning",
+        text: `Unknown gear set "${rawSet}" (expected one of: ${GEAR_SETS.map(
+          (s) => s.name
+        ).join(", ")}); imported without a set`,
+      });
+    }
+  }
+  return { line, item };
+}
+
+type ScalingCells = { rarity: string; level: string; rank: string };
+
+function applyScaling(
+  item: Item,
+  cells: ScalingCells,
+  line: number,
+  messages: BulkMessage[]
+) {
+  if (cells.rarity) {
+    const key = cells.rarity.toLowerCase();
+    const rarity = RARITIES.find(
+      (r) => r.id === key || r.name === cells.rarity
+    );
+    if (rarity) item.rarity = rarity.id;
+    else {
+      messages.push({
+        line,
+        level: "warning",
+        text: `Unknown rarity "${
+          cells.rarity
+        }" (expected one of: ${RARITIES.map((r) => r.name).join(
+          ", "
+        )}); imported without a rarity`,
+      });
+    }
+  }
+  const whole = (
+    raw: string,
+    label: string,
+    min: number,
+    max: number
+  ): number | undefined => {
+    if (!raw) return undefined;
+    const n = Number(raw);
+    if (Number.isInteger(n) && n >= min && n <= max) return n;
+    messages.push({
+      line,
+      level: "warning",
+      text: `${label} "${raw}" is not a whole number from ${min} to ${max}; ignored`,
+    });
+    return undefined;
+  };
+  const level = whole(cells.level, "Level", 1, MAX_LEVEL);
+  if (level !== undefined) item.level = level;
+  const rank = whole(cells.rank, "Rank", 0, MAX_RANK);
+  if (rank !== undefined) item.rank = rank;
+}
+
+// -----------------------------
+// Text block
+// -----------------------------
+
+const BUFF_LINE_RE = /^(.+?)\s*[:=]\s*(.*?)\s*(\*)?$/;
+
+function parseTextItems(text: string): BulkParseResult {
+  const items: BulkItem[] = [];
+  const messages: BulkMessage[] = [];
+  // "invalid": inside an item whose header was rejected; its lines are skipped.
+  let draft: Draft | "invalid" = null;
+
+  text.split("\n").forEach((rawLine, i) => {
+    const line = i + 1;
+    const s = rawLine.trim();
+    if (!s || s.startsWith("#")) return;
+
+    if (s.includes("|")) {
+      if (draft !== "invalid") finishItem(draft, items, messages);
+      const [name, slot = "", set = ""] = s.split("|").map((x) => x.trim());
+      draft = newDraft(name, slot, set, line, messages);
+      return;
+    }
+
+    const m = s.match(BUFF_LINE_RE);
+    if (!m) {
+      messages.push({
+        line,
+        level: "error",
+        text: 'Expected "Item name | Slot" or "Buff: value"',
+      });
+      return;
+    }
+    if (draft === "invalid") return;
+    if (!draft) {
+      messages.push({
+        line,
+        level: "error",
+        text: "Buff line before any item header",
+      });
+      return;
+    }
+    const value = parseValue(m[2]);
+    if (value === null) {
+      messages.push({
+        line,
+        level: "error",
+        text: `Value "${m[2]}" is not a number`,
+      });
+      return;
+    }
+    const buff = makeBuff(m[1], value, !!m[3], line, messages);
+    if (buff) draft.item.buffs.push(buff);
+  });
+  if (draft !== "invalid") finishItem(draft, items, messages);
+
+  return { format: "text", items, messages };
+}
+
+// -----------------------------
+// CSV
+// -----------------------------
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  item: ["item", "name", "item name"],
+  slot: ["slot"],
+  buff: ["buff", "buff name"],
+  value: ["value"],
+  recommended: ["recommended", "rec", "★"],
+  set: ["set", "gear set"],
+  rarity: ["rarity"],
+  level: ["level", "item level", "lv"],
+  rank: ["rank", "tuning rank"],
+};
+
+function parseCsvItems(text: string): BulkParseResult {
+  const items: BulkItem[] = [];
+  const messages: BulkMessage[] = [];
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { format: "csv", items, messages };
+
+  const col: Record<string, number> = {};
+  header.cells.forEach((c, i) => {
+    const key = c.trim().toLowerCase();
+    for (const [name, labels] of Object.entries(CSV_COLUMNS)) {
+      if (labels.includes(key) && col[name] === undefined) col[name] = i;
+    }
+  });
+  const missing = ["item", "slot", "buff", "value"].filter(
+    (k) => col[k] === undefined
+  );
+  if (missing.length > 0) {
+    messages.push({
+      line: header.line,
+      level: "error",
+      text: `Header is missing column(s): ${missing.join(", ")}`,
+    });
+    return { format: "csv", items, messages };
+  }
+
+  let draft: Draft | "invalid" = null;
+  let groupKey = "";
+  for (const row of rows) {
+    const cell = (k: string) =>
+      col[k] === undefined ? "" : (row.cells[col[k]] ?? "").trim();
+    const key = `${cell("item")}\u0000${cell("slot")}`;
+    if (key !== groupKey) {
+      if (draft !== "invalid") finishItem(draft, items, messages);
+      groupKey = key;
+      draft = newDraft(
+        cell("item"),
+        cell("slot"),
+        cell("set"),
+        row.line,
+        messages
+      );
+      if (draft && draft !== "invalid") {
+        applyScaling(
+          draft.item,
+          { rarity: cell("rarity"), level: cell("level"), rank: cell("rank") },
+          row.line,
+          messages
+        );
+      }
+    }
+    if (draft === "invalid" || !draft) continue;
+    // A row with no buff only declares the item.
+    if (!cell("buff") && !cell("value")) continue;
+    const value = parseValue(cell("value"));
+    if (value === null) {
+      messages.push({
+        line: row.line,
+        level: "error",
+        text: `Value "${cell("value")}" is not a number`,
+      });
+      continue;
+    }
+    const buff = makeBuff(
+      cell("buff"),
+      value,
+      TRUTHY.has(cell("recommended").toLowerCase()),
+      row.line,
+      messages
+    );
+    if (buff) draft.item.buffs.push(buff);
+  }
+  if (draft !== "invalid") finishItem(draft, items, messages);
+
+  return { format: "csv", items, messages };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseCliArgs, runCli } from "./cli";
+import { Character, emptyEquipped } from "./model";
+import { item } from "./testUtils";
+import { exportState } from "./transfer";
+
+const items = [
+  item("w1a", "Weapon", [["Attack", 10]]),
+  item("w1b", "Weapon", [["Attack", 30]]),
+  item("hat", "Helmet", [["Attack", 20]]),
+];
+
+const character: Character = {
+  id: "c1",
+  name: "Main",
+  activeLoadoutId: "l1",
+  loadouts: [
+    {
+      id: "l1",
+      name: "PvE",
+      equipped: { ...emptyEquipped(), "Weapon 1": "w1a" },
+      locked: {},
+      targets: { Attack: { min: 40 } },
+    },
+  ],
+};
+
+const files: Record<string, string> = {
+  "planner.json": exportState({ items, characters: [character] }),
+  "hard.txt": "Attack: 100",
+  "empty.txt": "nothing here",
+};
+
+const run = (...args: string[]) =>
+  runCli(args, (path) => {
+    if (!(path in files)) throw new Error(`Cannot read ${path}`);
+    return files[path];
+  });
+
+describe("parseCliArgs", () => {
+  it("reads both --flag value and --flag=value", () => {
+    expect(
+      parseCliArgs(["a.json", "--top-k", "7", "--beam-width=90", "--json"])
+    ).toMatchObject({
+      file: "a.json",
+      topKPerSlot: 7,
+      beamWidth: 90,
+      json: true,
+    });
+  });
+
+  it("rejects bad input with readable messages", () => {
+    expect(() => parseCliArgs([])).toThrow("Missing the planner file");
+    expect(() => parseCliArgs(["a.json", "--results", "0"])).toThrow(
+      "--results expects a positive whole number"
+    );
+    expect(() => parseCliArgs(["a.json", "--mode", "fast"])).toThrow(
+      '--mode must be "beam" or "exact"'
+    );
+    expect(() => parseCliArgs(["a.json", "--frobnicate"])).toThrow(
+      "Unknown option --frobnicate"
+    );
+  });
+});
+
+describe("runCli", () => {
+  it("exits 0 and reports the best build when targets are met", () => {
+    const res = run("planner.json", "--json");
+    expect(res.code).toBe(0);
+    const [report] = JSON.parse(res.stdout);
+    expect(report.met).toBe(true);
+    expect(report.equipped.totalMissing).toBe(30);
+    // Both weapons fit (one per weapon slot); w1a keeps its loadout slot.
+    expect(report.builds[0].items).toEqual([
+      { id: "w1a", name: "w1a", slot: "Weapon 1" },
+      { id: "w1b", name: "w1b", slot: "Weapon 2" },
+      { id: "hat", name: "hat", slot: "Helmet" },
+    ]);
+  });
+
+  it("exits 1 when the targets cannot be met", () => {
+    const res = run("planner.json", "--targets", "hard.txt");
+    expect(res.code).toBe(1);
+    expect(res.stdout).toContain("Targets: NOT met");
+  });
+
+  it("exits 2 on unreadable input", () => {
+    expect(run("missing.json").code).toBe(2);
+    expect(run("planner.json", "--targets", "empty.txt").stderr).toContain(
+      "No targets found in empty.txt"
+    );
+    expect(run("planner.json", "--loadout", "PvP").stderr).toContain(
+      'Main has no loadout "PvP"'
+    );
+  });
+});
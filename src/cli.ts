@@ -0,0 +1,503 @@
+import {
+  DEFAULT_SCORING,
+  DeficitReport,
+  FarmTarget,
+  OptimizeOptions,
+  OptimizerMode,
+  computeDeficits,
+  farmingTargets,
+  optimize,
+  parseTargetsFromText,
+  scoreBuild,
+  targetSpecToText,
+} from "./engine";
+import {
+  Character,
+  Equipped,
+  Item,
+  Loadout,
+  SLOTS,
+  SlotKey,
+  Targets,
+  normalizeBuffName,
+  placeItems,
+} from "./model";
+import { PlannerState } from "./persistence";
+import { parseImport } from "./transfer";
+
+/**
+ * Command-line optimizer runner: reads an exported planner file, scores the
+ * equipped build of a loadout and searches for better ones.
+ * File access is passed in, so this module stays free of Node APIs; the
+ * entry point is scripts/optimize.ts.
+ */
+
+export const USAGE = `Usage: yarn -s optimize <planner.json> [options]
+
+Options:
+  --targets <file>     targets in the app's text format, one per line
+                       (default: the loadout's own targets)
+  --character <name>   character name or id (default: the active one)
+  --loadout <name>     loadout name or id (default: the active one)
+  --all                every loadout of every character
+  --mode <beam|exact>  search mode (default: beam)
+  --top-k <n>          candidates kept per slot (default: 60)
+  --beam-width <n>     partial builds kept per step (default: 3000)
+  --results <n>        number of builds to list (default: 5)
+  --json               print JSON instead of tables
+  -h, --help           show this help
+
+Locked slots keep their equipped item. Exit codes: 0 targets met,
+1 targets cannot be met, 2 bad arguments or unreadable file.`;
+
+export type CliOptions = {
+  file: string;
+  targetsFile?: string;
+  character?: string;
+  loadout?: string;
+  all: boolean;
+  mode: OptimizerMode;
+  topKPerSlot: number;
+  beamWidth: number;
+  results: number;
+  json: boolean;
+  help: boolean;
+};
+
+export type CliResult = {
+  code: number;
+  stdout: string;
+  stderr: string;
+};
+
+type BuildReport = {
+  items: Item[];
+  placed: Equipped; // items kept in their loadout slots where possible
+  score: ReturnType<typeof scoreBuild>;
+  deficits: DeficitReport;
+};
+
+type LoadoutReport = {
+  character: string;
+  loadout: string;
+  targets: Targets;
+  equipped: BuildReport;
+  builds: BuildReport[]; // best first
+  missingSlots: SlotKey[];
+  unresolvedPins: SlotKey[]; // locked slots whose item is gone or no longer fits
+  met: boolean; // some build meets every target minimum
+  farming: FarmTarget[]; // what to farm when not met
+  objective: string | null; // stat the scoring maximizes, if any
+};
+
+// -----------------------------
+// Arguments
+// -----------------------------
+
+const VALUE_FLAGS = [
+  "--targets",
+  "--character",
+  "--loadout",
+  "--mode",
+  "--top-k",
+  "--beam-width",
+  "--results",
+];
+
+function positiveInt(flag: string, raw: string) {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`${flag} expects a positive whole number, got "${raw}"`);
+  }
+  return n;
+}
+
+/** Throws with a readable message on unknown or malformed options. */
+export function parseCliArgs(args: string[]): CliOptions {
+  const opts: CliOptions = {
+    file: "",
+    all: false,
+    mode: "beam",
+    topKPerSlot: 60,
+    beamWidth: 3000,
+    results: 5,
+    json: false,
+    help: false,
+  };
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("-")) {
+      files.push(arg);
+      continue;
+    }
+    // --flag=value or --flag value
+    const eq = arg.indexOf("=");
+    const flag = eq >= 0 ? arg.slice(0, eq) : arg;
+    let value: string | undefined;
+    if (VALUE_FLAGS.includes(flag)) {
+      value = eq >= 0 ? arg.slice(eq + 1) : args[++i];
+      if (value === undefined) throw new Error(`${flag} needs a value`);
+    } else if (eq >= 0) {
+      throw new Error(`${flag} does not take a value`);
+    }
+
+    switch (flag) {
+      case "--targets":
+        opts.targetsFile = value;
+        break;
+      case "--character":
+        opts.character = value;
+        break;
+      case "--loadout":
+        opts.loadout = value;
+        break;
+      case "--mode":
+        if (value !== "beam" && value !== "exact") {
+          throw new Error(`--mode must be "beam" or "exact", got "${value}"`);
+        }
+        opts.mode = value;
+        break;
+      case "--top-k":
+        opts.topKPerSlot = positiveInt(flag, value!);
+        break;
+      case "--beam-width":
+        opts.beamWidth = positiveInt(flag, value!);
+        break;
+      case "--results":
+        opts.results = positiveInt(flag, value!);
+        break;
+      case "--all":
+        opts.all = true;
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "-h":
+      case "--help":
+        opts.help = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  if (opts.help) return opts;
+  if (files.length !== 1) {
+    throw new Error(
+      files.length === 0
+        ? "Missing the planner file"
+        : `Expected one planner file, got ${files.length}`
+    );
+  }
+  if (opts.all && (opts.character || opts.loadout)) {
+    throw new Error("--all cannot be combined with --character or --loadout");
+  }
+  opts.file = files[0];
+  return opts;
+}
+
+// -----------------------------
+// Evaluation
+// -----------------------------
+
+function findByNameOrId<T extends { id: string; name: string }>(
+  list: T[],
+  key: string
+) {
+  return (
+    list.find((x) => x.id === key) ??
+    list.find((x) => x.name.toLowerCase() === key.toLowerCase())
+  );
+}
+
+function selectLoadouts(
+  state: PlannerState,
+  opts: CliOptions
+): [Character, Loadout][] {
+  if (opts.all) {
+    return state.characters.flatMap((c) =>
+      c.loadouts.map((l): [Character, Loadout] => [c, l])
+    );
+  }
+  const character = opts.character
+    ? findByNameOrId(state.characters, opts.character)
+    : state.characters.find((c) => c.id === state.activeCharacterId) ??
+      state.characters[0];
+  if (!character) throw new Error(`No character "${opts.character}"`);
+  const loadout = opts.loadout
+    ? findByNameOrId(character.loadouts, opts.loadout)
+    : character.loadouts.find((l) => l.id === character.activeLoadoutId) ??
+      character.loadouts[0];
+  if (!loadout) {
+    throw new Error(`${character.name} has no loadout "${opts.loadout}"`);
+  }
+  return [[character, loadout]];
+}
+
+function evaluateLoadout(
+  state: PlannerState,
+  character: Character,
+  loadout: Loadout,
+  targetsOverride: Targets | null,
+  opts: CliOptions
+): LoadoutReport {
+  const scoring = state.scoring ?? DEFAULT_SCORING;
+  const targets = targetsOverride ?? loadout.targets;
+  const report = (items: Item[]): BuildReport => {
+    const score = scoreBuild(items, targets, scoring);
+    return {
+      items,
+      placed: placeItems(items, loadout.equipped),
+      score,
+      deficits: computeDeficits(score.totals, targets),
+    };
+  };
+
+  const byId = new Map(state.items.map((it) => [it.id, it]));
+  const equipped = SLOTS.map((s) => byId.get(loadout.equipped[s] ?? "")).filter(
+    (it): it is Item => !!it
+  );
+  const pinned: OptimizeOptions["pinned"] = {};
+  for (const slot of SLOTS) {
+    if (loadout.locked[slot]) pinned[slot] = loadout.equipped[slot];
+  }
+
+  const result = optimize(state.items, targets, {
+    mode: opts.mode,
+    topKPerSlot: opts.topKPerSlot,
+    beamWidth: opts.beamWidth,
+    topN: opts.results,
+    pinned,
+    scoring,
+  });
+  const builds = result.builds.map((b) => report(b.items));
+  const met = builds.some((b) => b.score.totalMissing === 0);
+  const locked = SLOTS.filter((s) => loadout.locked[s]);
+
+  return {
+    character: character.name,
+    loadout: loadout.name,
+    targets,
+    equipped: report(equipped),
+    builds,
+    missingSlots: result.missingSlots,
+    unresolvedPins: result.unresolvedPins,
+    met,
+    farming: met
+      ? []
+      : farmingTargets(result.best, targets, state.items, locked, scoring),
+    objective: scoring.objective
+      ? normalizeBuffName(scoring.objective.stat)
+      : null,
+  };
+}
+
+// -----------------------------
+// Output
+// -----------------------------
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** Left-aligned text columns, right-aligned numbers. */
+function table(rows: (string | number)[][]) {
+  const cells = rows.map((r) => r.map(String));
+  const widths = cells[0].map((_, i) =>
+    Math.max(...cells.map((r) => (r[i] ?? "").length))
+  );
+  return cells
+    .map((r, ri) =>
+      r
+        .map((c, i) =>
+          ri > 0 && typeof rows[ri][i] === "number"
+            ? c.padStart(widths[i])
+            : c.padEnd(widths[i])
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+function formatTargets(targets: Targets) {
+  const parts = Object.entries(targets)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([k, v]) => `${k}: ${targetSpecToText(v)}`);
+  return parts.length > 0 ? parts.join(", ") : "(none)";
+}
+
+function formatBuild(b: BuildReport, indent: string) {
+  const lines: string[] = [];
+  const byId = new Map(b.items.map((it) => [it.id, it]));
+  lines.push(
+    table(SLOTS.map((s) => [s, byId.get(b.placed[s] ?? "")?.name ?? "(none)"]))
+  );
+  if (b.deficits.rows.length > 0) {
+    lines.push(
+      table([
+        ["Buff", "Current", "Target", "Diff"],
+        ...b.deficits.rows.map((r) => [
+          r.name,
+          round(r.current),
+          r.max === null ? `${r.required}` : `${r.required || ""}..${r.max}`,
+          r.waste > 0
+            ? `+${round(r.diff)} (${round(r.waste)} over cap)`
+            : round(r.diff),
+        ]),
+      ])
+    );
+  }
+  return lines
+    .join("\n\n")
+    .split("\n")
+    .map((l) => (l ? indent + l : l))
+    .join("\n");
+}
+
+function formatReport(r: LoadoutReport, opts: CliOptions) {
+  const out: string[] = [];
+  out.push(`== ${r.character} / ${r.loadout} ==`);
+  out.push(`Targets: ${formatTargets(r.targets)}`);
+  out.push(
+    `Search: ${opts.mode}, topKPerSlot=${opts.topKPerSlot}, beamWidth=${opts.beamWidth}`
+  );
+  if (r.missingSlots.length > 0) {
+    out.push(`No items for: ${r.missingSlots.join(", ")}`);
+  }
+  if (r.unresolvedPins.length > 0) {
+    out.push(`Locked item not found for: ${r.unresolvedPins.join(", ")}`);
+  }
+  out.push("");
+  out.push(
+    table([
+      [
+        "Build",
+        "Score",
+        "Missing",
+        "Waste",
+        ...(r.objective ? [r.objective] : []),
+      ],
+      ...[
+        ["equipped", r.equipped] as const,
+        ...r.builds.map((b, i) => [`#${i + 1}`, b] as const),
+      ].map(([label, b]) => [
+        label,
+        round(b.score.score),
+        round(b.score.totalMissing),
+        round(b.score.totalWaste),
+        // The stat itself, whether or not the score counts it yet.
+        ...(r.objective ? [round(b.score.totals[r.objective] ?? 0)] : []),
+      ]),
+    ])
+  );
+  if (r.builds[0]) {
+    out.push("");
+    out.push("Best build:");
+    out.push(formatBuild(r.builds[0], "  "));
+  }
+  if (r.farming.length > 0) {
+    out.push("");
+    out.push("Farm next (a new item for one slot closing every deficit):");
+    for (const f of r.farming.slice(0, 3)) {
+      const needs = f.needs
+        .map((n) => `${n.name} +${round(n.value)}`)
+        .join(", ");
+      const lines =
+        f.linesNeeded === null
+          ? "some buffs never seen"
+          : `${f.linesNeeded} line(s)${f.fits ? "" : ", more than one item"}`;
+      out.push(`  ${f.slot}: ${needs} (${lines})`);
+    }
+  }
+  out.push("");
+  out.push(r.met ? "Targets: met" : "Targets: NOT met");
+  return out.join("\n");
+}
+
+function buildJson(b: BuildReport) {
+  return {
+    items: SLOTS.flatMap((slot) => {
+      const it = b.items.find((x) => x.id === b.placed[slot]);
+      return it ? [{ id: it.id, name: it.name, slot }] : [];
+    }),
+    score: round(b.score.score),
+    totalMissing: b.score.totalMissing,
+    totalWaste: b.score.totalWaste,
+    totals: b.score.totals,
+    deficits: b.deficits.rows,
+  };
+}
+
+// -----------------------------
+// Entry
+// -----------------------------
+
+export function runCli(
+  args: string[],
+  readFile: (path: string) => string
+): CliResult {
+  let opts: CliOptions;
+  try {
+    opts = parseCliArgs(args);
+  } catch (e) {
+    return {
+      code: 2,
+      stdout: "",
+      stderr: `${(e as Error).message}\n\n${USAGE}\n`,
+    };
+  }
+  if (opts.help) return { code: 0, stdout: `${USAGE}\n`, stderr: "" };
+
+  const warnings: string[] = [];
+  let reports: LoadoutReport[];
+  try {
+    const { state, issues } = parseImport(readFile(opts.file));
+    warnings.push(...issues.map((i) => `warning: ${i}`));
+
+    let targets: Targets | null = null;
+    if (opts.targetsFile) {
+      targets = parseTargetsFromText(readFile(opts.targetsFile));
+      if (Object.keys(targets).length === 0) {
+        throw new Error(`No targets found in ${opts.targetsFile}`);
+      }
+    }
+
+    reports = selectLoadouts(state, opts).map(([c, l]) =>
+      evaluateLoadout(state, c, l, targets, opts)
+    );
+  } catch (e) {
+    return {
+      code: 2,
+      stdout: "",
+      stderr: [...warnings, `error: ${(e as Error).message}`, ""].join("\n"),
+    };
+  }
+
+  const stdout = opts.json
+    ? JSON.stringify(
+        reports.map((r) => ({
+          character: r.character,
+          loadout: r.loadout,
+          targets: r.targets,
+          met: r.met,
+          missingSlots: r.missingSlots,
+          unresolvedPins: r.unresolvedPins,
+          farming: r.farming.map((f) => ({
+            ...f,
+            replaces: f.replaces?.name ?? null,
+          })),
+          equipped: buildJson(r.equipped),
+          builds: r.builds.map(buildJson),
+        })),
+        null,
+        2
+      )
+    : reports.map((r) => formatReport(r, opts)).join("\n\n");
+
+  return {
+    code: reports.every((r) => r.met) ? 0 : 1,
+    stdout: `${stdout}\n`,
+    stderr: warnings.map((w) => `${w}\n`).join(""),
+  };
+}
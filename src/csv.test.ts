@@ -0,0 +1,55 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and cells, keeping empty cells", () => {
+    expect(parseCsv("a,b,,d\n1,2,3,4\n")).toEqual([
+      { line: 1, cells: ["a", "b", "", "d"] },
+      { line: 2, cells: ["1", "2", "3", "4"] },
+    ]);
+  });
+
+  it("reads quoted commas, escaped quotes and line breaks", () => {
+    const rows = parseCsv(
+      'name,note\n"Blade, Jade","says ""hi""\nthen bye"\nx,y'
+    );
+    expect(rows).toEqual([
+      { line: 1, cells: ["name", "note"] },
+      { line: 2, cells: ["Blade, Jade", 'says "hi"\nthen bye'] },
+      { line: 4, cells: ["x", "y"] },
+    ]);
+  });
+
+  it("handles CRLF, a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\r\n\r\n1,2\r\n")).toEqual([
+      { line: 1, cells: ["a", "b"] },
+      { line: 3, cells: ["1", "2"] },
+    ]);
+  });
+
+  it("keeps a last row without a line break", () => {
+    expect(parseCsv("a\nb")).toEqual([
+      { line: 1, cells: ["a"] },
+      { line: 2, cells: ["b"] },
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells that need it and round-trips through parseCsv", () => {
+    const rows = [
+      ["Item", "Note", "Value"],
+      ["Blade, Jade", 'says "hi"\nthen bye', 12.5],
+      [" padded ", null, true],
+    ];
+    const text = toCsv(rows);
+    expect(text.split("\r\n")[1]).toBe(
+      '"Blade, Jade","says ""hi""\nthen bye",12.5'
+    );
+    expect(parseCsv(text).map((r) => r.cells)).toEqual([
+      ["Item", "Note", "Value"],
+      ["Blade, Jade", 'says "hi"\nthen bye', "12.5"],
+      [" padded ", "", "true"],
+    ]);
+  });
+});
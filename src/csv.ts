@@ -0,0 +1,74 @@
+/**
+ * Minimal RFC 4180 CSV handling: quoted fields may contain commas, quotes
+ * ("" escapes) and line breaks.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+export type CsvRow = {
+  line: number; // 1-based line where the row starts
+  cells: string[];
+};
+
+export function parseCsv(input: string): CsvRow[] {
+  const text = input.replace(/^\uFEFF/, ""); // byte order mark from Excel
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    // Skip blank lines
+    if (cells.length > 1 || cells[0].trim() !== "") {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow();
+  return rows;
+}
+
+function csvCell(v: CsvCell) {
+  if (v === null || v === undefined) return "";
+  const s = String(v);
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Rows to CSV text with CRLF line endings. */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
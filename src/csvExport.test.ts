@@ -0,0 +1,94 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseCsv } from "./csv";
+import { deficitsCsv, inventoryCsv, totalsCsv } from "./csvExport";
+import { computeDeficits, sumBuffs } from "./engine";
+import { Item } from "./model";
+
+const cells = (text: string) => parseCsv(text).map((r) => r.cells);
+
+const blade: Item = {
+  id: "b",
+  name: "Blade, Jade",
+  slot: "Weapon",
+  set: "jade_ward",
+  rarity: "epic",
+  buffs: [
+    { id: "b.0", name: "Attack", value: 100, recommended: true },
+    { id: "b.1", name: "Attack", value: 10, recommended: false },
+  ],
+};
+
+const cap: Item = {
+  id: "c",
+  name: "Cap",
+  slot: "Helmet",
+  rank: 2,
+  excluded: true,
+  buffs: [{ id: "c.0", name: "Defense", value: 20, recommended: false }],
+};
+
+describe("inventoryCsv", () => {
+  it("writes one sorted row per item with effective values per buff", () => {
+    expect(cells(inventoryCsv([cap, blade]))).toEqual([
+      [
+        "Item",
+        "Slot",
+        "Set",
+        "Rarity",
+        "Level",
+        "Rank",
+        "Excluded",
+        "Lines",
+        "Recommended lines",
+        "Recommended buffs",
+        "Attack",
+        "Defense",
+      ],
+      [
+        "Blade, Jade",
+        "Weapon",
+        "Jade Ward",
+        "Epic",
+        "",
+        "",
+        "",
+        "2",
+        "1",
+        "Attack",
+        "159.5",
+        "",
+      ],
+      ["Cap", "Helmet", "", "", "", "2", "yes", "1", "0", "", "", "22"],
+    ]);
+  });
+
+  it("gives the same file for the same items in any order", () => {
+    expect(inventoryCsv([blade, cap])).toBe(inventoryCsv([cap, blade]));
+  });
+});
+
+describe("totalsCsv and deficitsCsv", () => {
+  it("export the build totals and target rows", () => {
+    const totals = sumBuffs([blade, cap]);
+    expect(cells(totalsCsv(totals))).toEqual([
+      ["Buff", "Total", "Lines", "Recommended lines"],
+      ["Attack", "159.5", "2", "1"],
+      ["Defense", "22", "1", "0"],
+    ]);
+    const flat = { Attack: totals.Attack.total, Defense: totals.Defense.total };
+    const report = computeDeficits(flat, { Defense: { min: 30, max: 40 } });
+    expect(cells(deficitsCsv(report.rows))).toEqual([
+      [
+        "Buff",
+        "Current",
+        "Required",
+        "Max",
+        "Weight",
+        "Diff",
+        "Missing",
+        "Over cap",
+      ],
+      ["Defense", "22", "30", "40", "1", "-8", "8", "0"],
+    ]);
+  });
+});
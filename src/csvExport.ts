@@ -0,0 +1,108 @@
+import { CsvCell, toCsv } from "./csv";
+import { BuffTotals, DeficitRow } from "./engine";
+import { lookupGearSet } from "./gearSets";
+import { Item, SLOT_TYPES } from "./model";
+import { RARITIES, ScalingTable, effectiveValue } from "./scaling";
+
+/**
+ * Spreadsheet (CSV) exports: inventory, build totals and target deficits.
+ * Rows and columns are sorted so exporting the same data twice gives the
+ * same file.
+ */
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+
+/**
+ * One row per item; one effective value column (by the given scaling table
+ * or the default) per buff name seen in the inventory.
+ */
+export function inventoryCsv(items: Item[], scaling?: ScalingTable): string {
+  const buffNames = Array.from(
+    new Set(items.flatMap((it) => it.buffs.map((b) => b.name)))
+  ).sort(byName);
+  const sorted = [...items].sort(
+    (a, b) =>
+      SLOT_TYPES.indexOf(a.slot) - SLOT_TYPES.indexOf(b.slot) ||
+      byName(a.name, b.name) ||
+      byName(a.id, b.id)
+  );
+
+  const rows: CsvCell[][] = [
+    [
+      "Item",
+      "Slot",
+      "Set",
+      "Rarity",
+      "Level",
+      "Rank",
+      "Excluded",
+      "Lines",
+      "Recommended lines",
+      "Recommended buffs",
+      ...buffNames,
+    ],
+  ];
+  for (const it of sorted) {
+    const values = new Map<string, number>();
+    for (const b of it.buffs) {
+      values.set(
+        b.name,
+        (values.get(b.name) ?? 0) + effectiveValue(it, b, scaling)
+      );
+    }
+    const recommended = it.buffs.filter((b) => b.recommended);
+    rows.push([
+      it.name,
+      it.slot,
+      it.set ? lookupGearSet(it.set)?.name ?? it.set : "",
+      RARITIES.find((r) => r.id === it.rarity)?.name,
+      it.level,
+      it.rank,
+      it.excluded ? "yes" : "",
+      it.buffs.length,
+      recommended.length,
+      recommended.map((b) => b.name).join("; "),
+      ...buffNames.map((n) => values.get(n)),
+    ]);
+  }
+  return toCsv(rows);
+}
+
+/** sumBuffs output for the equipped build, one row per buff. */
+export function totalsCsv(totals: BuffTotals): string {
+  const rows: CsvCell[][] = [["Buff", "Total", "Lines", "Recommended lines"]];
+  for (const name of Object.keys(totals).sort(byName)) {
+    const t = totals[name];
+    rows.push([name, t.total, t.lines, t.recommendedLines]);
+  }
+  return toCsv(rows);
+}
+
+/** computeDeficits rows, in the order the Equip panel shows them. */
+export function deficitsCsv(deficits: DeficitRow[]): string {
+  const rows: CsvCell[][] = [
+    [
+      "Buff",
+      "Current",
+      "Required",
+      "Max",
+      "Weight",
+      "Diff",
+      "Missing",
+      "Over cap",
+    ],
+  ];
+  for (const r of deficits) {
+    rows.push([
+      r.name,
+      r.current,
+      r.required,
+      r.max,
+      r.weight,
+      r.diff,
+      r.missing,
+      r.waste,
+    ]);
+  }
+  return toCsv(rows);
+}
@@ -0,0 +1,509 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  DEFAULT_SCORING,
+  compareBuilds,
+  computeDeficits,
+  farmingTargets,
+  parseTargetsFromText,
+  projectRank,
+  rankSwaps,
+  sanitizeScoring,
+  scoreBuild,
+  sumBuffs,
+  targetsToText,
+  totalsOf,
+} from "./engine";
+import { SlotType, emptyEquipped } from "./model";
+import { sanitizeScaling } from "./scaling";
+import { item } from "./testUtils";
+
+describe("parseTargetsFromText", () => {
+  it("accepts colon, equals and space separators", () => {
+    expect(
+      parseTargetsFromText("Attack: 100\nCrit Damage = 50\nMomentum 7")
+    ).toEqual({
+      Attack: { min: 100 },
+      "Crit Damage": { min: 50 },
+      Momentum: { min: 7 },
+    });
+  });
+
+  it("parses ranges, caps and weights", () => {
+    expect(
+      parseTargetsFromText("Crit Rate: 25..40\nPrecision: ..90\nAttack: 100 x2")
+    ).toEqual({
+      "Crit Rate": { min: 25, max: 40 },
+      Precision: { min: 0, max: 90 },
+      Attack: { min: 100, weight: 2 },
+    });
+  });
+
+  it("accepts the × sign and a weight on a range", () => {
+    expect(parseTargetsFromText("Crit Rate: 10..30 ×3")).toEqual({
+      "Crit Rate": { min: 10, max: 30, weight: 3 },
+    });
+  });
+
+  it("drops the default weight of 1", () => {
+    expect(parseTargetsFromText("Attack: 100 x1")).toEqual({
+      Attack: { min: 100 },
+    });
+  });
+
+  it("handles decimals and negatives", () => {
+    expect(parseTargetsFromText("Crit Rate: 12.5..-0.5 x0.5")).toEqual({
+      "Crit Rate": { min: 12.5, max: -0.5, weight: 0.5 },
+    });
+  });
+
+  it("canonicalizes aliases and casing", () => {
+    expect(parseTargetsFromText("critical rate: 20\nATK: 5")).toEqual({
+      "Crit Rate": { min: 20 },
+      Attack: { min: 5 },
+    });
+  });
+
+  it("skips blank and malformed lines", () => {
+    expect(
+      parseTargetsFromText(
+        "\n  \nAttack\nCrit Rate:\nAttack: lots\nPrecision: 5"
+      )
+    ).toEqual({ Precision: { min: 5 } });
+  });
+
+  it("tolerates Windows line endings and surrounding spaces", () => {
+    expect(parseTargetsFromText("  Attack: 10  \r\nCrit Rate: 5\r\n")).toEqual({
+      Attack: { min: 10 },
+      "Crit Rate": { min: 5 },
+    });
+  });
+
+  it("keeps the last line for a repeated buff", () => {
+    expect(parseTargetsFromText("Attack: 10\nATK: 20..30")).toEqual({
+      Attack: { min: 20, max: 30 },
+    });
+  });
+
+  it("round-trips through targetsToText", () => {
+    const targets = parseTargetsFromText(
+      "Precision: ..90\nAttack: 100 x2\nCrit Rate: 25..40 x0.5\nMomentum: 3"
+    );
+    const text = targetsToText(targets);
+    expect(text).toBe(
+      "Attack: 100 x2\nCrit Rate: 25..40 x0.5\nMomentum: 3\nPrecision: ..90"
+    );
+    expect(parseTargetsFromText(text)).toEqual(targets);
+  });
+});
+
+describe("sumBuffs", () => {
+  it("merges aliases and counts lines and recommended lines", () => {
+    const totals = sumBuffs([
+      item("helmet", "Helmet", [
+        ["Crit Rate", 5, true],
+        ["Attack", 10],
+      ]),
+      item("vest", "Vest", [
+        ["critical rate", 3],
+        ["CR", 2, true],
+      ]),
+    ]);
+    expect(totals).toEqual({
+      "Crit Rate": { total: 10, lines: 3, recommendedLines: 2 },
+      Attack: { total: 10, lines: 1, recommendedLines: 0 },
+    });
+  });
+
+  it("counts non-numeric values as zero and skips unnamed lines", () => {
+    const totals = sumBuffs([
+      item("arms", "Arms", [
+        ["Attack", NaN],
+        ["  ", 7],
+        ["Attack", 4],
+      ]),
+    ]);
+    expect(totals).toEqual({
+      Attack: { total: 4, lines: 2, recommendedLines: 0 },
+    });
+  });
+
+  it("sums effective values scaled by rarity, level and rank", () => {
+    const scaled = item("helmet", "Helmet", [["Attack", 100]], {
+      rarity: "epic",
+      level: 11,
+      rank: 2,
+    });
+    // 100 × 1.45 × (1 + 0.02 × 10) × (1 + 0.05 × 2)
+    expect(sumBuffs([scaled]).Attack.total).toBeCloseTo(191.4, 6);
+    expect(scoreBuild([scaled], { Attack: { min: 150 } }).totalMissing).toBe(0);
+  });
+
+  it("uses the scoring's scaling table when one is set", () => {
+    const scaled = item("helmet", "Helmet", [["Attack", 100]], {
+      rarity: "epic",
+      rank: 2,
+    });
+    const scaling = sanitizeScaling({
+      rarity: { epic: 2 },
+      rankStep: 0.5,
+      levelStep: -1, // invalid, so the default
+    });
+    expect(scaling.levelStep).toBe(0.02);
+    expect(scaling.rarity.rare).toBe(1.25);
+    // 100 × 2 × (1 + 0.5 × 2)
+    expect(sumBuffs([scaled], scaling).Attack.total).toBe(400);
+    const scoring = sanitizeScoring({ ...DEFAULT_SCORING, scaling });
+    const { totals } = scoreBuild([scaled], {}, scoring);
+    expect(totals.Attack).toBe(400);
+  });
+
+  it("adds unlocked gear set bonuses without counting them as lines", () => {
+    const piece = (slot: SlotType, set: string) =>
+      item(`${slot}:${set}`, slot, [["Attack", 10]], { set });
+    const two = [piece("Helmet", "iron_pine"), piece("Vest", "iron_pine")];
+    expect(sumBuffs(two)).toEqual({
+      Attack: { total: 60, lines: 2, recommendedLines: 0 },
+    });
+    const four = [
+      ...two,
+      piece("Arms", "iron_pine"),
+      piece("Legs", "iron_pine"),
+    ];
+    expect(totalsOf(four)).toEqual({
+      Attack: 80,
+      "Armor Penetration": 30,
+    });
+    // One piece, or an unknown set, grants nothing.
+    expect(totalsOf([piece("Helmet", "iron_pine")])).toEqual({ Attack: 10 });
+    expect(
+      totalsOf([piece("Helmet", "no_such"), piece("Vest", "no_such")])
+    ).toEqual({ Attack: 20 });
+  });
+
+  it("flattens to plain totals", () => {
+    expect(
+      totalsOf([
+        item("legs", "Legs", [["Attack", 3]]),
+        item("arms", "Arms", [["ATK", 4]]),
+      ])
+    ).toEqual({ Attack: 7 });
+    expect(totalsOf([])).toEqual({});
+  });
+});
+
+describe("computeDeficits", () => {
+  it("reports missing points, waste over caps and totals", () => {
+    const report = computeDeficits(
+      { Attack: 80, "Crit Rate": 45, Precision: 90 },
+      {
+        Attack: { min: 100, weight: 2 },
+        "Crit Rate": { min: 25, max: 40 },
+        Precision: { min: 90 },
+        "Crit Damage": { min: 10 },
+      }
+    );
+    expect(report.rows).toEqual([
+      {
+        name: "Attack",
+        current: 80,
+        required: 100,
+        max: null,
+        weight: 2,
+        diff: -20,
+        missing: 20,
+        waste: 0,
+      },
+      {
+        name: "Crit Damage",
+        current: 0,
+        required: 10,
+        max: null,
+        weight: 1,
+        diff: -10,
+        missing: 10,
+        waste: 0,
+      },
+      {
+        name: "Crit Rate",
+        current: 45,
+        required: 25,
+        max: 40,
+        weight: 1,
+        diff: 20,
+        missing: 0,
+        waste: 5,
+      },
+      {
+        name: "Precision",
+        current: 90,
+        required: 90,
+        max: null,
+        weight: 1,
+        diff: 0,
+        missing: 0,
+        waste: 0,
+      },
+    ]);
+    expect(report.totalMissing).toBe(30);
+    expect(report.totalWaste).toBe(5);
+  });
+
+  it("matches target names by alias", () => {
+    const report = computeDeficits({ "Crit Rate": 10 }, { CR: { min: 15 } });
+    expect(report.rows[0]).toMatchObject({
+      name: "Crit Rate",
+      current: 10,
+      missing: 5,
+    });
+  });
+
+  it("treats a cap-only target as never missing", () => {
+    const report = computeDeficits({}, { Precision: { min: 0, max: 50 } });
+    expect(report.rows[0]).toMatchObject({ missing: 0, waste: 0, diff: 0 });
+    expect(report.totalMissing).toBe(0);
+  });
+
+  it("returns an empty report without targets", () => {
+    expect(computeDeficits({ Attack: 5 }, {})).toEqual({
+      rows: [],
+      totalMissing: 0,
+      totalWaste: 0,
+    });
+  });
+});
+
+describe("rankSwaps", () => {
+  const helmA = item("helmA", "Helmet", [["Attack", 10]]);
+  const helmB = item("helmB", "Helmet", [["Attack", 30]]);
+  const helmC = item("helmC", "Helmet", [
+    ["Attack", 5],
+    ["Crit Rate", 20],
+  ]);
+  const vest = item("vest", "Vest", [["Crit Rate", 10]]);
+  const targets = { Attack: { min: 30 }, "Crit Rate": { min: 10 } };
+  const equipped = { ...emptyEquipped(), Helmet: "helmA", Vest: "vest" };
+
+  it("ranks swaps by score change and reports deficit changes", () => {
+    const [helmet] = rankSwaps(
+      [helmA, helmB, helmC, vest],
+      equipped,
+      targets
+    ).filter((u) => u.slot === "Helmet");
+    expect(helmet.current?.id).toBe("helmA");
+    expect(helmet.options.map((o) => o.item.id)).toEqual(["helmB", "helmC"]);
+
+    const [best, worse] = helmet.options;
+    const base = scoreBuild([helmA, vest], targets).score;
+    expect(best.scoreDelta).toBeCloseTo(
+      scoreBuild([helmB, vest], targets).score - base
+    );
+    expect(best.missingDelta).toBe(-20);
+    expect(best.closes).toEqual(["Attack"]);
+    expect(best.opens).toEqual([]);
+    expect(best.changes).toEqual([{ name: "Attack", before: 20, after: 0 }]);
+    expect(worse.missingDelta).toBe(5);
+    expect(worse.changes).toEqual([{ name: "Attack", before: 20, after: 25 }]);
+  });
+
+  it("reports targets a swap opens", () => {
+    const vestB = item("vestB", "Vest", [["Attack", 40]]);
+    const [vestSlot] = rankSwaps(
+      [helmA, vest, vestB],
+      equipped,
+      targets
+    ).filter((u) => u.slot === "Vest");
+    expect(vestSlot.options[0]).toMatchObject({
+      closes: ["Attack"],
+      opens: ["Crit Rate"],
+      missingDelta: -10,
+    });
+  });
+
+  it("fills empty slots, skips excluded items and skipped slots", () => {
+    const ranked = rankSwaps(
+      [helmA, { ...helmB, excluded: true }, vest],
+      { ...emptyEquipped(), Vest: "vest" },
+      targets,
+      undefined,
+      ["Vest"]
+    );
+    expect(ranked.map((u) => u.slot)).not.toContain("Vest");
+    const helmet = ranked.find((u) => u.slot === "Helmet")!;
+    expect(helmet.current).toBeNull();
+    expect(helmet.options.map((o) => o.item.id)).toEqual(["helmA"]);
+    expect(ranked.find((u) => u.slot === "Arms")!.options).toEqual([]);
+  });
+});
+
+describe("projectRank", () => {
+  const helm = item("helm", "Helmet", [["Attack", 20]], { rank: 2 });
+  const other = item("other", "Helmet", [["Attack", 22]]);
+  const vest = item("vest", "Vest", [["Attack", 10]]);
+  const equipped = { ...emptyEquipped(), Helmet: "helm", Vest: "vest" };
+  const targets = { Attack: { min: 40 } };
+
+  it("scores equipped items at the projected rank like a swap", () => {
+    const projected = projectRank([helm, other, vest], equipped, targets, 6);
+    expect(projected.map((p) => p.slot)).toEqual(["Helmet", "Vest"]);
+    const [helmet] = projected;
+    expect(helmet.current).toBe(helm);
+    expect(helmet.option.item).toMatchObject({ id: "helm", rank: 6 });
+    // 20 × 1.1 = 22 -> 20 × 1.3 = 26; the swap to "other" only reaches 22.
+    expect(helmet.option.missingDelta).toBe(-4);
+    const [swap] = rankSwaps([helm, other, vest], equipped, targets).find(
+      (u) => u.slot === "Helmet"
+    )!.options;
+    expect(helmet.option.scoreDelta).toBeGreaterThan(swap.scoreDelta);
+  });
+
+  it("skips items already at that rank and skipped slots", () => {
+    const projected = projectRank(
+      [helm, vest],
+      equipped,
+      targets,
+      2,
+      undefined,
+      ["Vest"]
+    );
+    expect(projected).toEqual([]);
+  });
+});
+
+describe("farmingTargets", () => {
+  const weapon = item("weapon", "Weapon", [["Attack", 20]]);
+  const helm = item("helm", "Helmet", [
+    ["Attack", 10],
+    ["Crit Rate", 5],
+  ]);
+  const spareHelm = item("spareHelm", "Helmet", [["Crit Rate", 8]]);
+  const inventory = [weapon, helm, spareHelm];
+  const build = [weapon, helm];
+
+  it("is empty when the build meets its targets", () => {
+    expect(farmingTargets(build, { Attack: { min: 30 } }, inventory)).toEqual(
+      []
+    );
+  });
+
+  it("lists what a new item per slot needs, easiest first", () => {
+    const targets = { Attack: { min: 40 }, "Crit Rate": { min: 13 } };
+    const plan = farmingTargets(build, targets, inventory);
+    expect(plan).toHaveLength(8);
+
+    // An empty slot only has to cover the current gap.
+    const arms = plan.find((f) => f.slot === "Arms")!;
+    expect(arms.replaces).toBeNull();
+    expect(arms.needs).toEqual([
+      { name: "Attack", value: 10, bestSeen: 20, lines: 1 },
+      { name: "Crit Rate", value: 8, bestSeen: 8, lines: 1 },
+    ]);
+    expect(arms).toMatchObject({ linesNeeded: 2, fits: true });
+
+    // Replacing the helmet also has to make up for its lines; helmet lines
+    // are judged against other helmets.
+    const helmet = plan.find((f) => f.slot === "Helmet")!;
+    expect(helmet.replaces?.id).toBe("helm");
+    expect(helmet.needs).toEqual([
+      { name: "Attack", value: 20, bestSeen: 10, lines: 2 },
+      { name: "Crit Rate", value: 13, bestSeen: 8, lines: 2 },
+    ]);
+    expect(helmet.linesNeeded).toBe(4);
+
+    expect(plan[0].linesNeeded).toBe(2);
+    expect(plan.indexOf(helmet)).toBeGreaterThan(plan.indexOf(arms));
+  });
+
+  it("flags buffs never seen and skips slots", () => {
+    const plan = farmingTargets(build, { Precision: { min: 10 } }, inventory, [
+      "Helmet",
+    ]);
+    expect(plan.map((f) => f.slot)).not.toContain("Helmet");
+    expect(plan[0]).toMatchObject({
+      linesNeeded: null,
+      fits: false,
+      needs: [{ name: "Precision", value: 10, bestSeen: null, lines: null }],
+    });
+  });
+
+  it("marks needs beyond one item as not fitting", () => {
+    const [best] = farmingTargets(build, { Attack: { min: 200 } }, inventory);
+    expect(best.fits).toBe(false);
+    expect(best.linesNeeded).toBeGreaterThan(6);
+  });
+});
+
+describe("compareBuilds", () => {
+  const helmA = item("helmA", "Helmet", [
+    ["Attack", 10],
+    ["Crit Rate", 10, true],
+  ]);
+  const helmB = item("helmB", "Helmet", [["Attack", 25]]);
+  const vest = item("vest", "Vest", [["Precision", 5]]);
+  const targets = { Attack: { min: 20 }, "Crit Rate": { min: 5, max: 8 } };
+
+  it("lists slot changes, buff deltas and target regressions", () => {
+    const cmp = compareBuilds([helmA, vest], [helmB, vest], targets);
+    expect(cmp.slots.filter((s) => s.changed)).toEqual([
+      { slot: "Helmet", a: helmA, b: helmB, changed: true },
+    ]);
+    expect(cmp.slots.find((s) => s.slot === "Arms")).toMatchObject({
+      a: null,
+      b: null,
+      changed: false,
+    });
+    expect(cmp.buffs).toEqual([
+      {
+        name: "Attack",
+        a: 10,
+        b: 25,
+        delta: 15,
+        targeted: true,
+        regression: false,
+      },
+      {
+        name: "Crit Rate",
+        a: 10,
+        b: 0,
+        delta: -10,
+        targeted: true,
+        regression: true,
+      },
+      {
+        name: "Precision",
+        a: 5,
+        b: 5,
+        delta: 0,
+        targeted: false,
+        regression: false,
+      },
+    ]);
+    expect(
+      cmp.deficits.map((d) => [d.name, d.a.missing, d.b.missing, d.a.waste])
+    ).toEqual([
+      ["Attack", 10, 0, 0],
+      ["Crit Rate", 0, 5, 2],
+    ]);
+  });
+
+  it("compares every scoring component", () => {
+    const cmp = compareBuilds([helmA], [helmB], targets);
+    const sa = scoreBuild([helmA], targets);
+    const sb = scoreBuild([helmB], targets);
+    const byKey = Object.fromEntries(cmp.components.map((c) => [c.key, c]));
+    expect(byKey.score).toMatchObject({
+      a: sa.score,
+      b: sb.score,
+      delta: sb.score - sa.score,
+      better: sb.score > sa.score,
+    });
+    expect(byKey.totalMissing).toMatchObject({ a: 10, b: 5, better: true });
+    expect(byKey.totalWaste).toMatchObject({ a: 2, b: 0, better: true });
+    expect(byKey.recommendedLines).toMatchObject({ a: 1, b: 0, better: false });
+    expect(byKey.totalLines).toMatchObject({ delta: -1, better: false });
+    expect(
+      compareBuilds([helmA], [helmA], targets).components.every(
+        (c) => c.better === null
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,597 @@
+import {
+  Equipped,
+  Item,
+  MAX_ITEM_LINES,
+  SLOTS,
+  SlotKey,
+  TargetSpec,
+  Targets,
+  fitsSlot,
+  normalizeBuffName,
+  placeItems,
+} from "./model";
+import { DerivedStatDef, formulasOf } from "./formulas";
+import { setBonusTotals, setPieceCounts } from "./gearSets";
+import { DEFAULT_SCORING, ScoringConfig, scoreBuild } from "./optimizer";
+import { ScalingTable, atRank, effectiveValue } from "./scaling";
+
+/**
+ * Calculation engine: buff totals, target deficits and the targets text
+ * format, plus the scoring and optimizer API from optimizer.ts.
+ * Free of React and the DOM, so the UI, the worker, tests and command-line
+ * tools all share one implementation.
+ */
+
+export {
+  DEFAULT_SCORING,
+  SCORING_PRESETS,
+  buildKey,
+  optimize,
+  optimizeSearch,
+  perItemHeuristic,
+  sanitizeScoring,
+  scoreBuild,
+} from "./optimizer";
+export type {
+  OptimizeOptions,
+  OptimizeResult,
+  OptimizedBuild,
+  OptimizerMode,
+  ScoringConfig,
+  ScoringObjective,
+} from "./optimizer";
+
+// -----------------------------
+// Types
+// -----------------------------
+
+export type BuffTotal = {
+  total: number;
+  recommendedLines: number;
+  lines: number;
+};
+
+export type BuffTotals = Record<string, BuffTotal>; // buffName -> total
+
+export type DeficitRow = {
+  name: string;
+  current: number;
+  required: number;
+  max: number | null; // cap, if the target has one
+  weight: number;
+  diff: number; // current - required
+  missing: number; // points below the minimum
+  waste: number; // points above the cap
+};
+
+export type DeficitReport = {
+  rows: DeficitRow[]; // most missing first, then most wasted, then by name
+  totalMissing: number;
+  totalWaste: number;
+};
+
+export type DeficitChange = {
+  name: string;
+  before: number; // missing points with the current item
+  after: number; // missing points after the swap
+};
+
+export type SwapOption = {
+  item: Item;
+  score: number; // scoreBuild score after the swap
+  scoreDelta: number;
+  missingDelta: number; // change in totalMissing; negative is better
+  wasteDelta: number;
+  closes: string[]; // targets unmet now and met after the swap
+  opens: string[]; // targets met now and unmet after the swap
+  changes: DeficitChange[]; // every target whose missing points change
+};
+
+export type NeededLine = {
+  name: string;
+  value: number; // points the new item must add
+  bestSeen: number | null; // largest single line of this buff in the inventory
+  lines: number | null; // lines of bestSeen size needed; null if never seen
+};
+
+export type FarmTarget = {
+  slot: SlotKey;
+  replaces: Item | null; // item in the build that the new one would replace
+  needs: NeededLine[]; // largest first
+  linesNeeded: number | null; // null if some needed buff was never seen
+  fits: boolean; // needs at most MAX_ITEM_LINES lines
+  difficulty: number; // sum of value / bestSeen; lower is easier
+};
+
+export type BuildScore = ReturnType<typeof scoreBuild>;
+
+/** Numeric scoreBuild fields, with whether higher is better. */
+export const SCORE_COMPONENTS: {
+  key: Exclude<keyof BuildScore, "totals">;
+  label: string;
+  higherIsBetter: boolean;
+}[] = [
+  { key: "score", label: "Score", higherIsBetter: true },
+  { key: "totalMissing", label: "Missing total", higherIsBetter: false },
+  { key: "deficitPenalty", label: "Deficit penalty", higherIsBetter: false },
+  { key: "totalWaste", label: "Over cap", higherIsBetter: false },
+  { key: "wastePenalty", label: "Over-cap penalty", higherIsBetter: false },
+  { key: "recommendedLines", label: "★ lines", higherIsBetter: true },
+  {
+    key: "targetedContribution",
+    label: "Targeted points",
+    higherIsBetter: true,
+  },
+  { key: "totalLines", label: "Lines", higherIsBetter: true },
+  { key: "objective", label: "Objective", higherIsBetter: true },
+];
+
+export type BuildComparison = {
+  slots: { slot: SlotKey; a: Item | null; b: Item | null; changed: boolean }[];
+  buffs: {
+    name: string;
+    a: number;
+    b: number;
+    delta: number; // b - a
+    targeted: boolean;
+    regression: boolean; // targeted, and b misses more or wastes more
+  }[]; // targeted first, then by name
+  deficits: { name: string; a: DeficitRow; b: DeficitRow }[];
+  components: {
+    key: (typeof SCORE_COMPONENTS)[number]["key"];
+    label: string;
+    a: number;
+    b: number;
+    delta: number;
+    better: boolean | null; // null when unchanged
+  }[];
+};
+
+export type SlotUpgrades = {
+  slot: SlotKey;
+  current: Item | null;
+  options: SwapOption[]; // best first
+};
+
+export type RankProjection = {
+  slot: SlotKey;
+  current: Item;
+  option: SwapOption; // option.item is the current item at the new rank
+};
+
+// -----------------------------
+// Totals & deficits
+// -----------------------------
+
+/**
+ * Buff totals over the items' lines (effective values, by the given scaling
+ * table or the default) plus any active gear set bonuses.
+ */
+export function sumBuffs(items: Item[], scaling?: ScalingTable): BuffTotals {
+  const map: BuffTotals = {};
+  for (const it of items) {
+    for (const b of it.buffs) {
+      const key = normalizeBuffName(b.name);
+      if (!key) continue;
+      if (!map[key]) map[key] = { total: 0, recommendedLines: 0, lines: 0 };
+      map[key].total += effectiveValue(it, b, scaling);
+      map[key].lines += 1;
+      if (b.recommended) map[key].recommendedLines += 1;
+    }
+  }
+  // Set bonuses raise the total without adding lines.
+  const bonus = setBonusTotals(setPieceCounts(items));
+  for (const [key, value] of Object.entries(bonus)) {
+    if (!map[key]) map[key] = { total: 0, recommendedLines: 0, lines: 0 };
+    map[key].total += value;
+  }
+  return map;
+}
+
+/** Buff name -> summed value. */
+export function totalsOf(
+  items: Item[],
+  scaling?: ScalingTable
+): Record<string, number> {
+  const flat: Record<string, number> = {};
+  for (const [k, v] of Object.entries(sumBuffs(items, scaling))) {
+    flat[k] = v.total;
+  }
+  return flat;
+}
+
+/** Totals plus every derived stat that compiles, by stat name. */
+export function withDerived(
+  totals: Record<string, number>,
+  derived: DerivedStatDef[] | undefined
+): Record<string, number> {
+  const formulas = formulasOf(derived);
+  return formulas ? { ...totals, ...formulas.evaluate(totals) } : totals;
+}
+
+export function computeDeficits(
+  totals: Record<string, number>,
+  targets: Targets
+): DeficitReport {
+  const rows = Object.entries(targets)
+    .filter(([k]) => normalizeBuffName(k))
+    .map(([name, spec]) => {
+      const key = normalizeBuffName(name);
+      const req = Number(spec.min) || 0;
+      const cap = spec.max ?? null;
+      const cur = Number(totals[key] ?? 0) || 0;
+      const diff = cur - req;
+      return {
+        name: key,
+        current: cur,
+        required: req,
+        max: cap,
+        weight: spec.weight ?? 1,
+        diff,
+        missing: Math.max(0, -diff),
+        waste: cap === null ? 0 : Math.max(0, cur - cap),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.missing - a.missing ||
+        b.waste - a.waste ||
+        a.name.localeCompare(b.name)
+    );
+  const totalMissing = rows.reduce((acc, r) => acc + r.missing, 0);
+  const totalWaste = rows.reduce((acc, r) => acc + r.waste, 0);
+  return { rows, totalMissing, totalWaste };
+}
+
+// -----------------------------
+// Targets text format
+// -----------------------------
+
+const NUM = String.raw`-?\d+(?:\.\d+)?`;
+const TARGET_LINE_RE = new RegExp(
+  String.raw`^(.+?)(?:\s*[:=]\s*|\s+)(${NUM})?\s*(?:\.\.\s*(${NUM}))?(?:\s+[x×]\s*(${NUM}))?\s*$`
+);
+
+export function parseTargetsFromText(text: string): Targets {
+  // Supports:
+  // Momentum: 100
+  // Momentum 100
+  // Crit Rate = 25
+  // Crit Rate: 25..40   (min..cap)
+  // Crit Rate: ..40     (cap only)
+  // Momentum: 100 x2    (priority weight)
+  // One per line.
+  const targets: Targets = {};
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const m = line.match(TARGET_LINE_RE);
+    if (!m || (m[2] === undefined && m[3] === undefined)) continue;
+    const name = normalizeBuffName(m[1]);
+    const min = m[2] === undefined ? 0 : Number(m[2]);
+    const max = m[3] === undefined ? undefined : Number(m[3]);
+    const weight = m[4] === undefined ? undefined : Number(m[4]);
+    if (!name || !Number.isFinite(min)) continue;
+    const spec: TargetSpec = { min };
+    if (max !== undefined && Number.isFinite(max)) spec.max = max;
+    if (weight !== undefined && weight >= 0 && weight !== 1) {
+      spec.weight = weight;
+    }
+    targets[name] = spec;
+  }
+  return targets;
+}
+
+export function targetSpecToText(spec: TargetSpec) {
+  let text =
+    spec.max === undefined ? `${spec.min}` : `${spec.min || ""}..${spec.max}`;
+  if (spec.weight !== undefined && spec.weight !== 1)
+    text += ` x${spec.weight}`;
+  return text;
+}
+
+/** Inverse of parseTargetsFromText, one target per line sorted by name. */
+export function targetsToText(targets: Targets) {
+  return Object.entries(targets)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([k, v]) => `${k}: ${targetSpecToText(v)}`)
+    .join("\n");
+}
+
+// -----------------------------
+// Single-item swaps
+// -----------------------------
+
+type Baseline = {
+  score: BuildScore;
+  missing: Map<string, number>; // target -> missing points
+};
+
+function equippedBaseline(
+  items: Item[],
+  equipped: Equipped,
+  targets: Targets,
+  scoring: ScoringConfig
+) {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const current = new Map<SlotKey, Item>();
+  for (const slot of SLOTS) {
+    const it = byId.get(equipped[slot] ?? "");
+    if (it) current.set(slot, it);
+  }
+  const score = scoreBuild(Array.from(current.values()), targets, scoring);
+  const rows = computeDeficits(score.totals, targets).rows;
+  const base: Baseline = {
+    score,
+    missing: new Map(rows.map((r) => [r.name, r.missing])),
+  };
+  return { current, base };
+}
+
+/** Every equipped item except the one in slot. */
+function restOf(current: Map<SlotKey, Item>, slot: SlotKey) {
+  return Array.from(current.entries())
+    .filter(([s]) => s !== slot)
+    .map(([, it]) => it);
+}
+
+function swapOption(
+  item: Item,
+  rest: Item[],
+  base: Baseline,
+  targets: Targets,
+  scoring: ScoringConfig
+): SwapOption {
+  const s = scoreBuild([...rest, item], targets, scoring);
+  const changes = computeDeficits(s.totals, targets)
+    .rows.map((r) => ({
+      name: r.name,
+      before: base.missing.get(r.name) ?? 0,
+      after: r.missing,
+    }))
+    .filter((c) => c.before !== c.after);
+  return {
+    item,
+    score: s.score,
+    scoreDelta: s.score - base.score.score,
+    missingDelta: s.totalMissing - base.score.totalMissing,
+    wasteDelta: s.totalWaste - base.score.totalWaste,
+    closes: changes
+      .filter((c) => c.before > 0 && c.after === 0)
+      .map((c) => c.name),
+    opens: changes
+      .filter((c) => c.before === 0 && c.after > 0)
+      .map((c) => c.name),
+    changes,
+  };
+}
+
+/**
+ * For each slot not in skipSlots, every other non-excluded item that fits the
+ * slot and is not equipped elsewhere swapped into the equipped set, ranked by
+ * score gain, then by missing points closed.
+ */
+export function rankSwaps(
+  items: Item[],
+  equipped: Equipped,
+  targets: Targets,
+  scoring: ScoringConfig = DEFAULT_SCORING,
+  skipSlots: SlotKey[] = []
+): SlotUpgrades[] {
+  const { current, base } = equippedBaseline(items, equipped, targets, scoring);
+  const equippedIds = new Set(Array.from(current.values(), (it) => it.id));
+  return SLOTS.filter((slot) => !skipSlots.includes(slot)).map((slot) => {
+    const rest = restOf(current, slot);
+    const options = items
+      .filter(
+        (it) => fitsSlot(it, slot) && !it.excluded && !equippedIds.has(it.id)
+      )
+      .map((item) => swapOption(item, rest, base, targets, scoring))
+      .sort(
+        (a, b) =>
+          b.scoreDelta - a.scoreDelta ||
+          a.missingDelta - b.missingDelta ||
+          a.item.name.localeCompare(b.item.name)
+      );
+    return { slot, current: current.get(slot) ?? null, options };
+  });
+}
+
+/**
+ * "If upgraded to rank N": for each equipped item below that tuning rank (in
+ * slots not in skipSlots), the same change figures as a swap, so leveling the
+ * piece can be weighed against rankSwaps' options for its slot.
+ */
+export function projectRank(
+  items: Item[],
+  equipped: Equipped,
+  targets: Targets,
+  rank: number,
+  scoring: ScoringConfig = DEFAULT_SCORING,
+  skipSlots: SlotKey[] = []
+): RankProjection[] {
+  const { current, base } = equippedBaseline(items, equipped, targets, scoring);
+  const out: RankProjection[] = [];
+  for (const slot of SLOTS) {
+    const it = current.get(slot);
+    if (!it || skipSlots.includes(slot)) continue;
+    const upgraded = atRank(it, rank);
+    if (upgraded.rank <= (it.rank ?? 0)) continue;
+    const rest = restOf(current, slot);
+    out.push({
+      slot,
+      current: it,
+      option: swapOption(upgraded, rest, base, targets, scoring),
+    });
+  }
+  return out;
+}
+
+// -----------------------------
+// Farming guidance
+// -----------------------------
+
+/**
+ * Largest single line per buff, from items in the slot when there are any
+ * with that buff, otherwise from the whole inventory.
+ */
+function bestLines(inventory: Item[], slot: SlotKey, scaling?: ScalingTable) {
+  const inSlot = new Map<string, number>();
+  const anywhere = new Map<string, number>();
+  for (const it of inventory) {
+    for (const b of it.buffs) {
+      const key = normalizeBuffName(b.name);
+      const v = effectiveValue(it, b, scaling);
+      if (!key || v <= 0) continue;
+      anywhere.set(key, Math.max(anywhere.get(key) ?? 0, v));
+      if (fitsSlot(it, slot)) {
+        inSlot.set(key, Math.max(inSlot.get(key) ?? 0, v));
+      }
+    }
+  }
+  return (name: string) => inSlot.get(name) ?? anywhere.get(name) ?? null;
+}
+
+/**
+ * What a new item would need, slot by slot, to close every deficit left in
+ * a build (usually the optimizer's best). Each suggestion replaces the item
+ * the build has in that slot, so it also has to make up for what that item
+ * gave. Line sizes are judged against the inventory. Sorted by feasibility:
+ * fits on one item, then fewest lines, then lowest difficulty.
+ * Empty when the build already meets every target. Targets on the scoring's
+ * derived stats are left out: they are not lines an item can roll. Values are
+ * effective values under the scoring's scaling table.
+ */
+export function farmingTargets(
+  build: Item[],
+  allTargets: Targets,
+  inventory: Item[],
+  skipSlots: SlotKey[] = [],
+  scoring: ScoringConfig = DEFAULT_SCORING
+): FarmTarget[] {
+  const derivedNames = new Set(formulasOf(scoring.derived)?.names ?? []);
+  const targets: Targets = {};
+  for (const [name, spec] of Object.entries(allTargets)) {
+    if (!derivedNames.has(normalizeBuffName(name))) targets[name] = spec;
+  }
+  const totals = (items: Item[]) => totalsOf(items, scoring.scaling);
+  if (computeDeficits(totals(build), targets).totalMissing === 0) return [];
+
+  const placed = placeItems(build);
+  const out = SLOTS.filter((slot) => !skipSlots.includes(slot)).map(
+    (slot): FarmTarget => {
+      const rest = build.filter((it) => it.id !== placed[slot]);
+      const seen = bestLines(inventory, slot, scoring.scaling);
+      const needs = computeDeficits(totals(rest), targets)
+        .rows.filter((r) => r.missing > 0)
+        .map((r): NeededLine => {
+          const bestSeen = seen(r.name);
+          return {
+            name: r.name,
+            value: r.missing,
+            bestSeen,
+            lines: bestSeen === null ? null : Math.ceil(r.missing / bestSeen),
+          };
+        })
+        .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+      const unknown = needs.some((n) => n.lines === null);
+      const linesNeeded = unknown
+        ? null
+        : needs.reduce((acc, n) => acc + (n.lines ?? 0), 0);
+      return {
+        slot,
+        replaces: build.find((it) => it.id === placed[slot]) ?? null,
+        needs,
+        linesNeeded,
+        fits: linesNeeded !== null && linesNeeded <= MAX_ITEM_LINES,
+        difficulty: needs.reduce(
+          (acc, n) => acc + (n.bestSeen ? n.value / n.bestSeen : n.value),
+          0
+        ),
+      };
+    }
+  );
+
+  return out.sort(
+    (a, b) =>
+      Number(b.fits) - Number(a.fits) ||
+      (a.linesNeeded ?? Infinity) - (b.linesNeeded ?? Infinity) ||
+      a.difficulty - b.difficulty ||
+      SLOTS.indexOf(a.slot) - SLOTS.indexOf(b.slot)
+  );
+}
+
+// -----------------------------
+// Build comparison
+// -----------------------------
+
+/**
+ * Differences going from build a to build b, judged against one target set.
+ * Items both builds share line up in the same slot.
+ */
+export function compareBuilds(
+  a: Item[],
+  b: Item[],
+  targets: Targets,
+  scoring: ScoringConfig = DEFAULT_SCORING
+): BuildComparison {
+  const pa = placeItems(a);
+  const pb = placeItems(b, pa);
+  const slots = SLOTS.map((slot) => {
+    const ia = a.find((it) => it.id === pa[slot]) ?? null;
+    const ib = b.find((it) => it.id === pb[slot]) ?? null;
+    return { slot, a: ia, b: ib, changed: ia?.id !== ib?.id };
+  });
+
+  const sa = scoreBuild(a, targets, scoring);
+  const sb = scoreBuild(b, targets, scoring);
+  const da = computeDeficits(sa.totals, targets).rows;
+  const dbByName = new Map(
+    computeDeficits(sb.totals, targets).rows.map((r) => [r.name, r])
+  );
+  const deficits = da
+    .map((r) => ({ name: r.name, a: r, b: dbByName.get(r.name)! }))
+    .sort((x, y) => x.name.localeCompare(y.name));
+  const regressed = new Set(
+    deficits
+      .filter((d) => d.b.missing > d.a.missing || d.b.waste > d.a.waste)
+      .map((d) => d.name)
+  );
+
+  // Score totals: buff totals plus derived stats.
+  const targeted = new Set(deficits.map((d) => d.name));
+  const buffs = Array.from(
+    new Set([...Object.keys(sa.totals), ...Object.keys(sb.totals), ...targeted])
+  )
+    .map((name) => {
+      const va = sa.totals[name] ?? 0;
+      const vb = sb.totals[name] ?? 0;
+      return {
+        name,
+        a: va,
+        b: vb,
+        delta: vb - va,
+        targeted: targeted.has(name),
+        regression: regressed.has(name),
+      };
+    })
+    .sort(
+      (x, y) =>
+        Number(y.targeted) - Number(x.targeted) || x.name.localeCompare(y.name)
+    );
+
+  const components = SCORE_COMPONENTS.map(({ key, label, higherIsBetter }) => {
+    const delta = sb[key] - sa[key];
+    const rose = delta > 0;
+    return {
+      key,
+      label,
+      a: sa[key],
+      b: sb[key],
+      delta,
+      better: delta === 0 ? null : rose === higherIsBetter,
+    };
+  });
+
+  return { slots, buffs, deficits, components };
+}
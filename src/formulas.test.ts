@@ -0,0 +1,114 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  compileFormulas,
+  derivedToText,
+  formulasOf,
+  parseDerivedText,
+} from "./formulas";
+
+const compile = (text: string) => compileFormulas(parseDerivedText(text).defs);
+
+describe("parseDerivedText", () => {
+  it("reads one definition per line and skips comments", () => {
+    const text = "# damage\neffective_dmg = Attack * 2\n\nbad line";
+    const { defs, errors } = parseDerivedText(text);
+    expect(defs).toEqual([{ name: "effective_dmg", expr: "Attack * 2" }]);
+    expect(errors).toHaveLength(1);
+    expect(derivedToText(defs)).toBe("effective_dmg = Attack * 2");
+  });
+});
+
+describe("compileFormulas", () => {
+  it("evaluates over buff totals with aliases and precedence", () => {
+    const { formulas, errors } = compile(
+      "effective_dmg = Attack * (1 + CritRate/100 * CritDmg/100)"
+    );
+    expect(errors).toEqual([]);
+    expect(formulas.inputs.sort()).toEqual([
+      "Attack",
+      "Crit Damage",
+      "Crit Rate",
+    ]);
+    const stats = formulas.evaluate({
+      Attack: 1000,
+      "Crit Rate": 50,
+      "Crit Damage": 100,
+    });
+    expect(stats.effective_dmg).toBeCloseTo(1500, 9);
+  });
+
+  it("supports unary minus, min/max, bracketed buffs and earlier stats", () => {
+    const { formulas, errors } = compile(
+      [
+        "crit = min(CritRate, 100) / 100",
+        "mastery = [Sword Mastery] - -2",
+        "total = max(crit * 10, 1) + mastery",
+      ].join("\n")
+    );
+    expect(errors).toEqual([]);
+    expect(formulas.evaluate({ "Crit Rate": 150, "Sword Mastery": 3 })).toEqual(
+      { crit: 1, mastery: 5, total: 15 }
+    );
+  });
+
+  it("gives 0 for division by zero and missing buffs", () => {
+    const { formulas } = compile("ratio = Attack / Defense");
+    expect(formulas.evaluate({ Attack: 10 })).toEqual({ ratio: 0 });
+  });
+
+  it("reports bad definitions and keeps the rest", () => {
+    const { formulas, errors } = compile(
+      [
+        "ok = Attack",
+        "Attack = 1",
+        "ok = 2",
+        "9lives = 1",
+        "later = soon + 1",
+        "soon = 1",
+        "junk = Attack +",
+        "call = eval(1)",
+        "typo = Atack",
+      ].join("\n")
+    );
+    expect(formulas.names).toEqual(["ok", "soon"]);
+    expect(errors.map((e) => e.name)).toEqual([
+      "Attack",
+      "ok",
+      "9lives",
+      "later",
+      "junk",
+      "call",
+      "typo",
+    ]);
+  });
+
+  it("bounds every value between the totals' ranges", () => {
+    const { formulas } = compile(
+      "d = Attack * (1 + CritRate/100 * CritDmg/100) - min(Defense, 20) / 2"
+    );
+    const lo = { Attack: 10, "Crit Rate": 0, "Crit Damage": 20, Defense: 5 };
+    const hi = { Attack: 50, "Crit Rate": 40, "Crit Damage": 80, Defense: 30 };
+    const [a, b] = formulas.interval(lo, hi).d;
+    for (let i = 0; i <= 10; i++) {
+      const t = i / 10;
+      const mid: Record<string, number> = {};
+      for (const k of Object.keys(lo)) {
+        mid[k] =
+          lo[k as keyof typeof lo] * (1 - t) + hi[k as keyof typeof hi] * t;
+      }
+      const v = formulas.evaluate(mid).d;
+      expect(v).toBeGreaterThanOrEqual(a - 1e-9);
+      expect(v).toBeLessThanOrEqual(b + 1e-9);
+    }
+    expect(formulas.interval(lo, lo).d).toEqual([
+      formulas.evaluate(lo).d,
+      formulas.evaluate(lo).d,
+    ]);
+  });
+
+  it("caches compiled lists by identity", () => {
+    const defs = [{ name: "x", expr: "Attack" }];
+    expect(formulasOf(defs)).toBe(formulasOf(defs));
+    expect(formulasOf([])).toBeNull();
+  });
+});
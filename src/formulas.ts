@@ -0,0 +1,408 @@
+import { lookupBuff } from "./buffCatalog";
+import { normalizeBuffName } from "./model";
+
+/**
+ * Derived stats: named formulas over aggregated buff totals, e.g.
+ *
+ *   effective_dmg = Attack * (1 + CritRate/100 * CritDmg/100)
+ *
+ * The language is parsed here and never handed to eval: numbers, + - * /,
+ * parentheses, min(...) and max(...). A bare name is an earlier derived stat
+ * or a catalog buff (spacing and case ignored, aliases allowed); any other
+ * buff goes in brackets, e.g. [Sword Mastery]. Division by zero gives 0.
+ */
+
+export type DerivedStatDef = {
+  name: string; // letters, digits and _; not a catalog buff name
+  expr: string;
+};
+
+export type FormulaError = { name: string; text: string };
+
+type Node =
+  | { k: "num"; v: number }
+  | { k: "buff"; key: string }
+  | { k: "stat"; name: string }
+  | { k: "neg"; a: Node }
+  | { k: "bin"; op: "+" | "-" | "*" | "/"; a: Node; b: Node }
+  | { k: "call"; fn: "min" | "max"; args: Node[] };
+
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FUNCTIONS = new Set(["min", "max"]);
+export const MAX_EXPR_LENGTH = 500;
+const MAX_DEPTH = 40;
+
+// -----------------------------
+// Parsing
+// -----------------------------
+
+type Token =
+  | { t: "num"; v: number }
+  | { t: "name"; v: string }
+  | { t: "bracket"; v: string }
+  | { t: "op"; v: string };
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) {
+      i += 1;
+    } else if (/[0-9.]/.test(c)) {
+      const m = src.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!m) throw new Error(`Bad number at "${src.slice(i, i + 8)}"`);
+      out.push({ t: "num", v: Number(m[0]) });
+      i += m[0].length;
+    } else if (/[A-Za-z_]/.test(c)) {
+      const m = src.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      out.push({ t: "name", v: m[0] });
+      i += m[0].length;
+    } else if (c === "[") {
+      const end = src.indexOf("]", i);
+      if (end < 0) throw new Error("Missing ]");
+      out.push({ t: "bracket", v: src.slice(i + 1, end) });
+      i = end + 1;
+    } else if ("+-*/(),".includes(c)) {
+      out.push({ t: "op", v: c });
+      i += 1;
+    } else {
+      throw new Error(`Unexpected "${c}"`);
+    }
+  }
+  return out;
+}
+
+/** Parses one expression; names resolve against the earlier stats. */
+function parseExpr(src: string, stats: Set<string>): Node {
+  if (src.length > MAX_EXPR_LENGTH) {
+    throw new Error(`Longer than ${MAX_EXPR_LENGTH} characters`);
+  }
+  const tokens = tokenize(src);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (v: string) => {
+    const tok = tokens[pos];
+    return tok?.t === "op" && tok.v === v;
+  };
+  const expect = (v: string) => {
+    if (!isOp(v)) throw new Error(`Expected "${v}"`);
+    pos += 1;
+  };
+
+  const sum = (depth: number): Node => {
+    if (depth > MAX_DEPTH) throw new Error("Nested too deeply");
+    let node = product(depth);
+    while (isOp("+") || isOp("-")) {
+      const op = (tokens[pos++] as { v: "+" | "-" }).v;
+      node = { k: "bin", op, a: node, b: product(depth) };
+    }
+    return node;
+  };
+  const product = (depth: number): Node => {
+    let node = unary(depth);
+    while (isOp("*") || isOp("/")) {
+      const op = (tokens[pos++] as { v: "*" | "/" }).v;
+      node = { k: "bin", op, a: node, b: unary(depth) };
+    }
+    return node;
+  };
+  const unary = (depth: number): Node => {
+    if (isOp("-")) {
+      pos += 1;
+      return { k: "neg", a: unary(depth + 1) };
+    }
+    if (isOp("+")) {
+      pos += 1;
+      return unary(depth + 1);
+    }
+    return primary(depth);
+  };
+  const primary = (depth: number): Node => {
+    const tok = peek();
+    if (!tok) throw new Error("Unexpected end");
+    pos += 1;
+    if (tok.t === "num") return { k: "num", v: tok.v };
+    if (tok.t === "bracket") {
+      const key = normalizeBuffName(tok.v);
+      if (!key) throw new Error("Empty []");
+      return { k: "buff", key };
+    }
+    if (tok.t === "name") {
+      if (FUNCTIONS.has(tok.v.toLowerCase()) && isOp("(")) {
+        pos += 1;
+        const args = [sum(depth + 1)];
+        while (isOp(",")) {
+          pos += 1;
+          args.push(sum(depth + 1));
+        }
+        expect(")");
+        return { k: "call", fn: tok.v.toLowerCase() as "min" | "max", args };
+      }
+      if (stats.has(tok.v)) return { k: "stat", name: tok.v };
+      const def = lookupBuff(tok.v);
+      if (def) return { k: "buff", key: def.name };
+      throw new Error(
+        `Unknown buff or stat "${tok.v}" (use [Name] for other buffs)`
+      );
+    }
+    if (tok.v === "(") {
+      const node = sum(depth + 1);
+      expect(")");
+      return node;
+    }
+    throw new Error(`Unexpected "${tok.v}"`);
+  };
+
+  const node = sum(0);
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos].v}"`);
+  }
+  return node;
+}
+
+/**
+ * "name = expression" per line; blank lines and # comments are skipped.
+ * Lines without "=" are reported with an empty name.
+ */
+export function parseDerivedText(text: string): {
+  defs: DerivedStatDef[];
+  errors: FormulaError[];
+} {
+  const defs: DerivedStatDef[] = [];
+  const errors: FormulaError[] = [];
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eq = line.indexOf("=");
+    if (eq < 0) {
+      errors.push({ name: "", text: `Expected "name = expression": ${line}` });
+      continue;
+    }
+    defs.push({
+      name: line.slice(0, eq).trim(),
+      expr: line.slice(eq + 1).trim(),
+    });
+  }
+  return { defs, errors };
+}
+
+export function derivedToText(defs: DerivedStatDef[]) {
+  return defs.map((d) => `${d.name} = ${d.expr}`).join("\n");
+}
+
+/**
+ * `current` plus the `incoming` definitions whose names it lacks, appended in
+ * order (`current` itself when there are none). `conflicts` names incoming
+ * stats that `current` defines differently; the current formula is kept.
+ */
+export function mergeDerived(
+  current: DerivedStatDef[] | undefined,
+  incoming: DerivedStatDef[] | undefined
+): {
+  defs: DerivedStatDef[] | undefined;
+  added: string[];
+  conflicts: string[];
+} {
+  const mine = new Map((current ?? []).map((d) => [d.name, d.expr]));
+  const added: DerivedStatDef[] = [];
+  const conflicts: string[] = [];
+  for (const d of incoming ?? []) {
+    const expr = mine.get(d.name);
+    if (expr === undefined) {
+      mine.set(d.name, d.expr);
+      added.push({ name: d.name, expr: d.expr });
+    } else if (expr !== d.expr) {
+      conflicts.push(d.name);
+    }
+  }
+  return {
+    defs: added.length > 0 ? [...(current ?? []), ...added] : current,
+    added: added.map((d) => d.name),
+    conflicts,
+  };
+}
+
+// -----------------------------
+// Evaluation
+// -----------------------------
+
+export type CompiledFormulas = {
+  names: string[]; // valid stats, in definition order
+  inputs: string[]; // buffs the stats read (canonical names)
+  /** Stat name -> value over the buff totals (0 when not finite). */
+  evaluate(totals: Record<string, number>): Record<string, number>;
+  /**
+   * Stat name -> [lowest, highest] value for any totals between lo and hi,
+   * by interval arithmetic. Exact when lo and hi are equal.
+   */
+  interval(
+    lo: Record<string, number>,
+    hi: Record<string, number>
+  ): Record<string, [number, number]>;
+};
+
+const finite = (v: number) => (Number.isFinite(v) ? v : 0);
+
+function evalNode(
+  n: Node,
+  totals: Record<string, number>,
+  stats: Record<string, number>
+): number {
+  switch (n.k) {
+    case "num":
+      return n.v;
+    case "buff":
+      return totals[n.key] ?? 0;
+    case "stat":
+      return stats[n.name] ?? 0;
+    case "neg":
+      return -evalNode(n.a, totals, stats);
+    case "call": {
+      const vals = n.args.map((a) => evalNode(a, totals, stats));
+      return n.fn === "min" ? Math.min(...vals) : Math.max(...vals);
+    }
+    case "bin": {
+      const a = evalNode(n.a, totals, stats);
+      const b = evalNode(n.b, totals, stats);
+      if (n.op === "+") return a + b;
+      if (n.op === "-") return a - b;
+      if (n.op === "*") return a * b;
+      return b === 0 ? 0 : a / b;
+    }
+  }
+}
+
+type Range = [number, number];
+
+/** Smallest range holding every value; anything undefined widens it fully. */
+function span(values: number[]): Range {
+  if (values.some((v) => Number.isNaN(v))) return [-Infinity, Infinity];
+  return [Math.min(...values), Math.max(...values)];
+}
+
+// 0 × ±Infinity is 0 here: an unbounded factor times zero is still zero.
+const mul = (x: number, y: number) => (x === 0 || y === 0 ? 0 : x * y);
+
+function rangeNode(
+  n: Node,
+  lo: Record<string, number>,
+  hi: Record<string, number>,
+  stats: Record<string, Range>
+): Range {
+  switch (n.k) {
+    case "num":
+      return [n.v, n.v];
+    case "buff":
+      return [lo[n.key] ?? 0, hi[n.key] ?? 0];
+    case "stat":
+      return stats[n.name] ?? [0, 0];
+    case "neg": {
+      const [a0, a1] = rangeNode(n.a, lo, hi, stats);
+      return [-a1, -a0];
+    }
+    case "call": {
+      const rs = n.args.map((a) => rangeNode(a, lo, hi, stats));
+      const pick = n.fn === "min" ? Math.min : Math.max;
+      return [pick(...rs.map((r) => r[0])), pick(...rs.map((r) => r[1]))];
+    }
+    case "bin": {
+      const [a0, a1] = rangeNode(n.a, lo, hi, stats);
+      const [b0, b1] = rangeNode(n.b, lo, hi, stats);
+      if (n.op === "+") return span([a0 + b0, a1 + b1]);
+      if (n.op === "-") return span([a0 - b1, a1 - b0]);
+      if (n.op === "*") {
+        return span([mul(a0, b0), mul(a0, b1), mul(a1, b0), mul(a1, b1)]);
+      }
+      if (b0 === 0 && b1 === 0) return [0, 0];
+      if (b0 <= 0 && b1 >= 0) return [-Infinity, Infinity];
+      return span([a0 / b0, a0 / b1, a1 / b0, a1 / b1]);
+    }
+  }
+}
+
+function collectBuffs(n: Node, out: Set<string>) {
+  if (n.k === "buff") out.add(n.key);
+  else if (n.k === "neg") collectBuffs(n.a, out);
+  else if (n.k === "bin") {
+    collectBuffs(n.a, out);
+    collectBuffs(n.b, out);
+  } else if (n.k === "call") n.args.forEach((a) => collectBuffs(a, out));
+}
+
+/**
+ * Compiles definitions in order; each may use the stats before it. Invalid
+ * definitions are reported and left out.
+ */
+export function compileFormulas(defs: DerivedStatDef[]): {
+  formulas: CompiledFormulas;
+  errors: FormulaError[];
+} {
+  const compiled: { name: string; node: Node }[] = [];
+  const errors: FormulaError[] = [];
+  const names = new Set<string>();
+  const inputs = new Set<string>();
+  for (const d of defs) {
+    const fail = (text: string) => errors.push({ name: d.name, text });
+    if (!NAME_RE.test(d.name)) {
+      fail(`"${d.name}" is not a valid name (letters, digits and _)`);
+      continue;
+    }
+    if (FUNCTIONS.has(d.name.toLowerCase()) || lookupBuff(d.name)) {
+      fail(`"${d.name}" is already a buff or function name`);
+      continue;
+    }
+    if (names.has(d.name)) {
+      fail(`"${d.name}" is defined twice`);
+      continue;
+    }
+    try {
+      const node = parseExpr(d.expr, names);
+      collectBuffs(node, inputs);
+      compiled.push({ name: d.name, node });
+      names.add(d.name);
+    } catch (err) {
+      fail(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return {
+    formulas: {
+      names: compiled.map((c) => c.name),
+      inputs: Array.from(inputs),
+      evaluate(totals) {
+        const stats: Record<string, number> = {};
+        for (const c of compiled) {
+          stats[c.name] = finite(evalNode(c.node, totals, stats));
+        }
+        return stats;
+      },
+      interval(lo, hi) {
+        const stats: Record<string, Range> = {};
+        for (const c of compiled) {
+          const [a, b] = rangeNode(c.node, lo, hi, stats);
+          // A point matches evaluate, which maps non-finite values to 0.
+          stats[c.name] = a === b ? [finite(a), finite(a)] : [a, b];
+        }
+        return stats;
+      },
+    },
+    errors,
+  };
+}
+
+// Scoring evaluates formulas for every candidate build: compile each list once.
+const compiledCache = new WeakMap<DerivedStatDef[], CompiledFormulas>();
+
+/** Compiled formulas for a definition list; null when there are none. */
+export function formulasOf(
+  defs: DerivedStatDef[] | undefined
+): CompiledFormulas | null {
+  if (!defs || defs.length === 0) return null;
+  let out = compiledCache.get(defs);
+  if (!out) {
+    out = compileFormulas(defs).formulas;
+    compiledCache.set(defs, out);
+  }
+  return out;
+}
@@ -0,0 +1,138 @@
+import { canonicalBuffName } from "./buffCatalog";
+import type { Item } from "./model";
+
+/**
+ * Gear set registry: equipping enough pieces of one set grants bonus buffs.
+ * Tiers stack, so a 4-piece set also grants its 2-piece bonus. Bonuses count
+ * towards buff totals like any buff line, but are not lines themselves.
+ */
+
+export type SetBonusTier = {
+  pieces: number; // pieces equipped to unlock this tier
+  buffs: { name: string; value: number }[]; // values must be positive
+};
+
+export type GearSetDef = {
+  id: string; // stored on items; never rename
+  name: string;
+  tiers: SetBonusTier[]; // fewest pieces first
+};
+
+export const GEAR_SETS: GearSetDef[] = [
+  {
+    id: "jade_ward",
+    name: "Jade Ward",
+    tiers: [
+      { pieces: 2, buffs: [{ name: "Defense", value: 60 }] },
+      { pieces: 4, buffs: [{ name: "HP", value: 1200 }] },
+    ],
+  },
+  {
+    id: "crimson_gale",
+    name: "Crimson Gale",
+    tiers: [
+      { pieces: 2, buffs: [{ name: "Crit Rate", value: 4 }] },
+      {
+        pieces: 4,
+        buffs: [
+          { name: "Crit Damage", value: 12 },
+          { name: "Momentum", value: 10 },
+        ],
+      },
+    ],
+  },
+  {
+    id: "moonlit_tide",
+    name: "Moonlit Tide",
+    tiers: [
+      { pieces: 2, buffs: [{ name: "Precision", value: 5 }] },
+      { pieces: 4, buffs: [{ name: "Affinity Rate", value: 6 }] },
+    ],
+  },
+  {
+    id: "iron_pine",
+    name: "Iron Pine",
+    tiers: [
+      { pieces: 2, buffs: [{ name: "Attack", value: 40 }] },
+      { pieces: 4, buffs: [{ name: "Armor Penetration", value: 30 }] },
+    ],
+  },
+  {
+    id: "spring_rain",
+    name: "Spring Rain",
+    tiers: [
+      { pieces: 2, buffs: [{ name: "Healing Bonus", value: 6 }] },
+      { pieces: 4, buffs: [{ name: "HP", value: 800 }] },
+    ],
+  },
+];
+
+const BY_ID = new Map(GEAR_SETS.map((s) => [s.id, s]));
+const BY_NAME = new Map(
+  GEAR_SETS.map((s) => [s.name.toLowerCase().replace(/\s+/g, " "), s])
+);
+
+/** Set by id, or by name ignoring case and extra spaces. */
+export function lookupGearSet(key: string): GearSetDef | undefined {
+  const k = key.trim();
+  return BY_ID.get(k) ?? BY_NAME.get(k.toLowerCase().replace(/\s+/g, " "));
+}
+
+// -----------------------------
+// Bonuses
+// -----------------------------
+
+/** Known set id -> pieces among the items. */
+export function setPieceCounts(items: Item[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const it of items) {
+    if (it.set && BY_ID.has(it.set)) {
+      counts.set(it.set, (counts.get(it.set) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/** Tiers unlocked by a piece count. */
+export function unlockedTiers(set: GearSetDef, pieces: number) {
+  return set.tiers.filter((t) => pieces >= t.pieces);
+}
+
+/** Canonical buff name -> bonus from every unlocked tier. */
+export function setBonusTotals(
+  counts: Map<string, number>
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  counts.forEach((pieces, id) => {
+    const set = BY_ID.get(id);
+    if (!set) return;
+    for (const tier of unlockedTiers(set, pieces)) {
+      for (const b of tier.buffs) {
+        const key = canonicalBuffName(b.name);
+        totals[key] = (totals[key] ?? 0) + b.value;
+      }
+    }
+  });
+  return totals;
+}
+
+export type ActiveSet = {
+  set: GearSetDef;
+  pieces: number;
+  tiers: SetBonusTier[]; // unlocked, possibly none yet
+  next: SetBonusTier | null; // next tier to unlock
+};
+
+/** Every set with at least one piece among the items, in registry order. */
+export function activeSets(items: Item[]): ActiveSet[] {
+  const counts = setPieceCounts(items);
+  return GEAR_SETS.filter((s) => counts.has(s.id)).map((set) => {
+    const pieces = counts.get(set.id)!;
+    return {
+      set,
+      pieces,
+      tiers: unlockedTiers(set, pieces),
+      next: set.tiers.find((t) => t.pieces > pieces) ?? null,
+    };
+  });
+}
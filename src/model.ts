@@ -0,0 +1,242 @@
+import { canonicalBuffName } from "./buffCatalog";
+
+/**
+ * Shared data model for the build planner.
+ * Kept free of React so it can be imported from the optimizer worker.
+ */
+
+// -----------------------------
+// Types
+// -----------------------------
+
+export type SlotKey =
+  | "Weapon 1"
+  | "Weapon 2"
+  | "Support 1"
+  | "Support 2"
+  | "Helmet"
+  | "Vest"
+  | "Arms"
+  | "Legs";
+
+export const SLOTS: SlotKey[] = [
+  "Weapon 1",
+  "Weapon 2",
+  "Support 1",
+  "Support 2",
+  "Helmet",
+  "Vest",
+  "Arms",
+  "Legs",
+];
+
+/**
+ * Kind of gear an item is. Paired types (weapons, supports) have two
+ * interchangeable slots; an item can go in either, but in only one at a time.
+ */
+export type SlotType =
+  | "Weapon"
+  | "Support"
+  | "Helmet"
+  | "Vest"
+  | "Arms"
+  | "Legs";
+
+export const SLOT_TYPES: SlotType[] = [
+  "Weapon",
+  "Support",
+  "Helmet",
+  "Vest",
+  "Arms",
+  "Legs",
+];
+
+export const SLOT_GROUPS: Record<SlotType, SlotKey[]> = {
+  Weapon: ["Weapon 1", "Weapon 2"],
+  Support: ["Support 1", "Support 2"],
+  Helmet: ["Helmet"],
+  Vest: ["Vest"],
+  Arms: ["Arms"],
+  Legs: ["Legs"],
+};
+
+/** Usual number of buff lines on a piece of gear (5–6). */
+export const MAX_ITEM_LINES = 6;
+
+export type BuffLine = {
+  id: string;
+  name: string; // e.g., "Momentum"
+  value: number; // e.g., 15
+  recommended: boolean; // if the game flags this as a recommended line
+};
+
+export type Rarity = "common" | "uncommon" | "rare" | "epic" | "legendary";
+
+export type Item = {
+  id: string;
+  name: string;
+  slot: SlotType; // fits any slot of this type (see SLOT_GROUPS)
+  buffs: BuffLine[]; // base values; see scaling.ts for effective values
+  set?: string; // gear set id (see gearSets.ts)
+  rarity?: Rarity; // unset, level 1 and rank 0 leave values unscaled
+  level?: number;
+  rank?: number; // tuning/refinement rank
+  excluded?: boolean; // never picked by the optimizer (e.g., reserved for another character)
+};
+
+export type TargetSpec = {
+  min: number; // required value (0 = no minimum)
+  max?: number; // soft/hard cap; points above it are wasted
+  weight?: number; // priority multiplier for missing/wasted points (default 1)
+};
+
+export type Targets = Record<string, TargetSpec>; // buffName -> target range
+
+export type Equipped = Record<SlotKey, string | null>; // slot -> itemId
+
+export type LockedSlots = Partial<Record<SlotKey, boolean>>; // slot -> keep equipped item when optimizing
+
+export type Loadout = {
+  id: string;
+  name: string; // e.g., "PvE", "PvP", "Healer"
+  equipped: Equipped;
+  targets: Targets;
+  locked: LockedSlots;
+};
+
+export type Character = {
+  id: string;
+  name: string;
+  loadouts: Loadout[]; // never empty
+  activeLoadoutId: string;
+};
+
+// -----------------------------
+// Utilities
+// -----------------------------
+
+export function uid(prefix = "id") {
+  return `${prefix}_${Math.random()
+    .toString(16)
+    .slice(2)}_${Date.now().toString(16)}`;
+}
+
+export function emptyEquipped(): Equipped {
+  return Object.fromEntries(SLOTS.map((s) => [s, null])) as Equipped;
+}
+
+export function slotTypeOf(slot: SlotKey): SlotType {
+  return SLOT_TYPES.find((t) => SLOT_GROUPS[t].includes(slot))!;
+}
+
+export function fitsSlot(item: Item, slot: SlotKey) {
+  return SLOT_GROUPS[item.slot].includes(slot);
+}
+
+/**
+ * Slot type by name, ignoring case and spaces; a slot name maps to its type
+ * ("weapon2" -> "Weapon", "Support" -> "Support").
+ */
+export function parseSlotType(raw: string): SlotType | null {
+  const key = raw.toLowerCase().replace(/\s+/g, "");
+  const type = SLOT_TYPES.find((t) => t.toLowerCase() === key);
+  if (type) return type;
+  const slot = SLOTS.find((s) => s.toLowerCase().replace(/\s+/g, "") === key);
+  return slot ? slotTypeOf(slot) : null;
+}
+
+/**
+ * Puts a build's items into slots: each item keeps its slot in `prefer` when
+ * it fits there, the rest take the first free slot of their type. Items that
+ * do not fit any free slot (or repeat an id) are left out.
+ */
+export function placeItems(items: Item[], prefer?: Equipped): Equipped {
+  const equipped = emptyEquipped();
+  const placed = new Set<string>();
+  const rest: Item[] = [];
+  for (const it of items) {
+    if (placed.has(it.id)) continue;
+    const slot = SLOTS.find((s) => prefer?.[s] === it.id);
+    if (slot && fitsSlot(it, slot) && equipped[slot] === null) {
+      equipped[slot] = it.id;
+      placed.add(it.id);
+    } else rest.push(it);
+  }
+  for (const it of rest) {
+    if (placed.has(it.id)) continue;
+    const slot = SLOT_GROUPS[it.slot].find((s) => equipped[s] === null);
+    if (slot) {
+      equipped[slot] = it.id;
+      placed.add(it.id);
+    }
+  }
+  return equipped;
+}
+
+/** Canonical buff name: catalog aliases and casing collapse to one name. */
+export function normalizeBuffName(name: string) {
+  return canonicalBuffName(name);
+}
+
+/** Rewrites an item's buff names to their canonical form. */
+export function canonicalizeItem(item: Item): Item {
+  return {
+    ...item,
+    buffs: item.buffs.map((b) => ({ ...b, name: normalizeBuffName(b.name) })),
+  };
+}
+
+/**
+ * Same name, slot, set, rarity, level, rank, exclusion and buff lines; ids
+ * are ignored.
+ */
+export function sameItem(a: Item, b: Item) {
+  return (
+    a.name === b.name &&
+    a.slot === b.slot &&
+    (a.set ?? null) === (b.set ?? null) &&
+    (a.rarity ?? null) === (b.rarity ?? null) &&
+    (a.level ?? null) === (b.level ?? null) &&
+    (a.rank ?? null) === (b.rank ?? null) &&
+    !!a.excluded === !!b.excluded &&
+    a.buffs.length === b.buffs.length &&
+    a.buffs.every(
+      (x, i) =>
+        x.name === b.buffs[i].name &&
+        x.value === b.buffs[i].value &&
+        x.recommended === b.buffs[i].recommended
+    )
+  );
+}
+
+/**
+ * Reads one stored target. Accepts the legacy plain-number form (a minimum)
+ * as well as a TargetSpec; returns null for anything else.
+ */
+export function toTargetSpec(raw: unknown): TargetSpec | null {
+  if (typeof raw === "number") {
+    return Number.isFinite(raw) ? { min: raw } : null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const num = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) ? v : undefined;
+  const min = num(r.min) ?? 0;
+  const max = num(r.max);
+  const weight = num(r.weight);
+  const spec: TargetSpec = { min };
+  if (max !== undefined) spec.max = max;
+  if (weight !== undefined && weight >= 0 && weight !== 1) spec.weight = weight;
+  return spec;
+}
+
+export function toTargets(raw: unknown): Targets {
+  const targets: Targets = {};
+  if (!raw || typeof raw !== "object") return targets;
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    const key = normalizeBuffName(name);
+    const spec = toTargetSpec(value);
+    if (key && spec) targets[key] = spec;
+  }
+  return targets;
+}
@@ -0,0 +1,334 @@
+import { describe, expect, it } from "@jest/globals";
+import { DEFAULT_SCORING, ScoringConfig, optimize, scoreBuild } from "./engine";
+import {
+  Item,
+  SLOTS,
+  SLOT_GROUPS,
+  SLOT_TYPES,
+  SlotKey,
+  SlotType,
+  Targets,
+  placeItems,
+  slotTypeOf,
+} from "./model";
+
+// Small deterministic PRNG (mulberry32) so failures reproduce.
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const BUFFS = ["Attack", "Crit Rate", "Crit Damage", "Precision", "Momentum"];
+
+function randomInventory(seed: number, slots: SlotType[], perSlot: number) {
+  const rand = rng(seed);
+  const items: Item[] = [];
+  for (const slot of slots) {
+    for (let i = 0; i < perSlot; i++) {
+      const id = `${slot}#${i}`;
+      const lines = 1 + Math.floor(rand() * 3);
+      items.push({
+        id,
+        name: id,
+        slot,
+        buffs: Array.from({ length: lines }, (_, j) => ({
+          id: `${id}.${j}`,
+          name: BUFFS[Math.floor(rand() * BUFFS.length)],
+          value: 1 + Math.floor(rand() * 20),
+          recommended: rand() < 0.3,
+        })),
+      });
+    }
+  }
+  return items;
+}
+
+const TARGETS: Targets = {
+  Attack: { min: 30, weight: 2 },
+  "Crit Rate": { min: 10, max: 25 },
+  Precision: { min: 15 },
+};
+
+function combinations<T>(pool: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  return pool.flatMap((x, i) =>
+    combinations(pool.slice(i + 1), k - 1).map((rest) => [x, ...rest])
+  );
+}
+
+/**
+ * Scores of every build that fills as many slots of each type as it has
+ * distinct items for (and includes every `required` item), best first.
+ */
+function bruteForce(
+  items: Item[],
+  targets: Targets,
+  required: Item[] = [],
+  scoring: ScoringConfig = DEFAULT_SCORING
+) {
+  const groups = SLOT_TYPES.map((t) => {
+    const pool = items.filter((it) => it.slot === t);
+    return combinations(
+      pool,
+      Math.min(pool.length, SLOT_GROUPS[t].length)
+    ).filter((c) => required.every((r) => r.slot !== t || c.includes(r)));
+  });
+  const scores: number[] = [];
+  const walk = (i: number, chosen: Item[]) => {
+    if (i === groups.length) {
+      scores.push(scoreBuild(chosen, targets, scoring).score);
+      return;
+    }
+    for (const picked of groups[i]) walk(i + 1, [...chosen, ...picked]);
+  };
+  walk(0, []);
+  return scores.sort((a, b) => b - a);
+}
+
+// Both pairs plus one single slot: five slots.
+const SLOT_SUBSET: SlotType[] = ["Weapon", "Support", "Helmet"];
+const SEEDS = [1, 2, 3, 4, 5, 6];
+
+describe("optimize", () => {
+  it.each(SEEDS)("exact mode finds the brute-force best (seed %i)", (seed) => {
+    const items = randomInventory(seed, SLOT_SUBSET, 3);
+    const best = bruteForce(items, TARGETS)[0];
+    const result = optimize(items, TARGETS, { mode: "exact" });
+    expect(result.exact?.proven).toBe(true);
+    expect(result.bestScore.score).toBeCloseTo(best, 6);
+  });
+
+  it.each(SEEDS)("exact mode returns the top N builds (seed %i)", (seed) => {
+    const items = randomInventory(seed, SLOT_SUBSET, 3);
+    const expected = bruteForce(items, TARGETS).slice(0, 5);
+    const result = optimize(items, TARGETS, { mode: "exact", topN: 5 });
+    const scores = result.builds.map((b) => b.score.score);
+    expect(scores).toHaveLength(5);
+    scores.forEach((s, i) => expect(s).toBeCloseTo(expected[i], 6));
+  });
+
+  it.each(SEEDS)(
+    "a stopped exact search bounds what it left unexplored (seed %i)",
+    (seed) => {
+      const items = randomInventory(seed, SLOT_SUBSET, 3);
+      const best = bruteForce(items, TARGETS)[0];
+      for (const maxNodes of [1, 3, 8]) {
+        const result = optimize(items, TARGETS, {
+          mode: "exact",
+          beamWidth: 1,
+          topKPerSlot: 1,
+          maxNodes,
+        });
+        expect(result.exact?.proven).toBe(false);
+        expect(result.exact!.nodes).toBeLessThanOrEqual(maxNodes + 1);
+        expect(result.bestScore.score + result.exact!.gap).toBeGreaterThan(
+          best - 1e-6
+        );
+      }
+    }
+  );
+
+  it.each(SEEDS)("unpruned beam search is optimal (seed %i)", (seed) => {
+    const items = randomInventory(seed, SLOT_SUBSET, 3);
+    const best = bruteForce(items, TARGETS)[0];
+    const result = optimize(items, TARGETS, {
+      mode: "beam",
+      topKPerSlot: 3,
+      beamWidth: 81,
+    });
+    expect(result.bestScore.score).toBeCloseTo(best, 6);
+  });
+
+  it("never scores a beam build above the brute-force best", () => {
+    const items = randomInventory(7, SLOT_SUBSET, 3);
+    const best = bruteForce(items, TARGETS)[0];
+    const result = optimize(items, TARGETS, { beamWidth: 2, topKPerSlot: 2 });
+    expect(result.bestScore.score).toBeLessThanOrEqual(best + 1e-9);
+  });
+
+  it("returns distinct builds with one item per filled slot", () => {
+    const items = randomInventory(8, SLOT_SUBSET, 3);
+    const result = optimize(items, TARGETS, { mode: "exact", topN: 10 });
+    const keys = result.builds.map((b) =>
+      b.items
+        .map((it) => it.id)
+        .sort()
+        .join()
+    );
+    expect(new Set(keys).size).toBe(keys.length);
+    const subsetSlots = SLOT_SUBSET.flatMap((t) => SLOT_GROUPS[t]);
+    for (const b of result.builds) {
+      expect(new Set(b.items).size).toBe(b.items.length);
+      const placed = placeItems(b.items);
+      expect(SLOTS.filter((s) => placed[s] !== null)).toEqual(subsetSlots);
+    }
+    expect(result.missingSlots).toEqual(
+      SLOTS.filter((s) => !subsetSlots.includes(s))
+    );
+  });
+
+  it("fills a pair with distinct items and reports a slot it cannot fill", () => {
+    const items = randomInventory(12, ["Weapon", "Support"], 2).filter(
+      (it) => it.id !== "Support#1"
+    );
+    for (const mode of ["beam", "exact"] as const) {
+      const result = optimize(items, TARGETS, { mode });
+      expect(result.best.map((it) => it.id).sort()).toEqual([
+        "Support#0",
+        "Weapon#0",
+        "Weapon#1",
+      ]);
+      expect(result.missingSlots).toContain("Support 2");
+      expect(result.missingSlots).not.toContain("Support 1");
+    }
+  });
+
+  it("respects pinned slots and skips excluded items", () => {
+    const items = randomInventory(9, SLOT_SUBSET, 3);
+    const pinnedItem = items.find((it) => it.slot === SLOT_SUBSET[0])!;
+    const excluded = new Set(
+      items.filter((it) => it.slot === SLOT_SUBSET[1]).map((it) => it.id)
+    );
+    excluded.delete(`${SLOT_SUBSET[1]}#2`);
+    const marked = items.map((it) =>
+      excluded.has(it.id) ? { ...it, excluded: true } : it
+    );
+    const allowed = marked.filter((it) => !it.excluded);
+    const best = bruteForce(allowed, TARGETS, [pinnedItem])[0];
+
+    for (const mode of ["beam", "exact"] as const) {
+      const result = optimize(marked, TARGETS, {
+        mode,
+        pinned: { "Weapon 2": pinnedItem.id },
+      });
+      const ids = result.best.map((it) => it.id);
+      expect(ids).toContain(pinnedItem.id);
+      expect(ids).toContain(`${SLOT_SUBSET[1]}#2`);
+      expect(result.bestScore.score).toBeCloseTo(best, 6);
+    }
+  });
+
+  it.each(SEEDS)(
+    "exact and beam search account for gear set bonuses (seed %i)",
+    (seed) => {
+      const rand = rng(seed * 31);
+      const sets = ["iron_pine", "moonlit_tide", "crimson_gale"];
+      const items = randomInventory(seed, SLOT_SUBSET, 3).map((it) =>
+        rand() < 0.6
+          ? { ...it, set: sets[Math.floor(rand() * sets.length)] }
+          : it
+      );
+      const best = bruteForce(items, TARGETS)[0];
+      const exact = optimize(items, TARGETS, { mode: "exact" });
+      expect(exact.exact?.proven).toBe(true);
+      expect(exact.bestScore.score).toBeCloseTo(best, 6);
+      const beam = optimize(items, TARGETS, {
+        mode: "beam",
+        topKPerSlot: 3,
+        beamWidth: 81,
+      });
+      expect(beam.bestScore.score).toBeCloseTo(best, 6);
+    }
+  );
+
+  it("completes a set when its bonus beats the best single pieces", () => {
+    const piece = (slot: SlotKey, kind: string, value: number): Item => ({
+      id: `${slot}#${kind}`,
+      name: `${slot} ${kind}`,
+      slot: slotTypeOf(slot),
+      buffs: [
+        { id: `${slot}#${kind}.0`, name: "Attack", value, recommended: false },
+      ],
+    });
+    // Five strong pieces reach 60; two weak Iron Pine pieces unlock +40.
+    const items = SLOT_SUBSET.flatMap((t) => SLOT_GROUPS[t]).flatMap((slot) => [
+      piece(slot, "strong", 12),
+      { ...piece(slot, "pine", 1), set: "iron_pine" },
+    ]);
+    const targets: Targets = { Attack: { min: 70 } };
+    for (const mode of ["beam", "exact"] as const) {
+      const result = optimize(items, targets, {
+        mode,
+        topKPerSlot: 1,
+        beamWidth: 2,
+      });
+      expect(result.bestScore.totalMissing).toBe(0);
+      expect(result.bestScore.totals.Attack).toBe(78);
+      expect(result.best.filter((it) => it.set).length).toBe(2);
+    }
+  });
+
+  it.each(SEEDS)(
+    "exact search maximizes a derived objective after targets (seed %i)",
+    (seed) => {
+      const items = randomInventory(seed, SLOT_SUBSET, 3);
+      const scoring: ScoringConfig = {
+        ...DEFAULT_SCORING,
+        derived: [
+          { name: "crit", expr: "min(CritRate, 40) / 100" },
+          {
+            name: "effective_dmg",
+            expr: "Attack * (1 + crit * CritDmg / 100) - Momentum / 2",
+          },
+        ],
+        objective: { stat: "effective_dmg", weight: 5 },
+      };
+      const targets: Targets = { ...TARGETS, effective_dmg: { min: 20 } };
+      const best = bruteForce(items, targets, [], scoring)[0];
+      const exact = optimize(items, targets, { mode: "exact", scoring });
+      expect(exact.exact?.proven).toBe(true);
+      expect(exact.bestScore.score).toBeCloseTo(best, 6);
+      const beam = optimize(items, targets, {
+        mode: "beam",
+        topKPerSlot: 3,
+        beamWidth: 81,
+        scoring,
+      });
+      expect(beam.bestScore.score).toBeCloseTo(best, 6);
+    }
+  );
+
+  it("counts the objective only once every minimum is met", () => {
+    const items = randomInventory(11, SLOT_SUBSET, 2);
+    const scoring: ScoringConfig = {
+      ...DEFAULT_SCORING,
+      derived: [{ name: "power", expr: "Attack * 2" }],
+      objective: { stat: "power", weight: 1 },
+    };
+    const met = scoreBuild(items, { Attack: { min: 1 } }, scoring);
+    expect(met.objective).toBe(met.totals.power);
+    expect(met.totals.power).toBe(met.totals.Attack * 2);
+    const unmet = scoreBuild(items, { Attack: { min: 10_000 } }, scoring);
+    expect(unmet.objective).toBe(0);
+  });
+
+  it("keeps a slot pinned empty", () => {
+    const items = randomInventory(10, SLOT_SUBSET, 2);
+    const result = optimize(items, TARGETS, {
+      mode: "exact",
+      pinned: { Helmet: null, "Support 2": null },
+    });
+    expect(result.best.some((it) => it.slot === "Helmet")).toBe(false);
+    expect(result.best.filter((it) => it.slot === "Support")).toHaveLength(1);
+    expect(result.missingSlots).not.toContain("Helmet");
+    expect(result.missingSlots).not.toContain("Support 2");
+    expect(result.unresolvedPins).toEqual([]);
+  });
+
+  it("reports pins to items that are gone or do not fit", () => {
+    const items = randomInventory(11, SLOT_SUBSET, 2);
+    for (const mode of ["beam", "exact"] as const) {
+      const result = optimize(items, TARGETS, {
+        mode,
+        pinned: { Helmet: "deleted", "Support 1": "Helmet#0" },
+      });
+      expect(result.unresolvedPins).toEqual(["Support 1", "Helmet"]);
+      expect(result.best.some((it) => it.slot === "Helmet")).toBe(false);
+      expect(result.best.filter((it) => it.slot === "Support")).toHaveLength(1);
+    }
+  });
+});
@@ -0,0 +1,974 @@
+import { DerivedStatDef, formulasOf } from "./formulas";
+import { GEAR_SETS, setBonusTotals, setPieceCounts } from "./gearSets";
+import {
+  Item,
+  SLOT_GROUPS,
+  SLOT_TYPES,
+  SlotKey,
+  Targets,
+  fitsSlot,
+  normalizeBuffName,
+} from "./model";
+import { ScalingTable, effectiveValue, sanitizeScaling } from "./scaling";
+
+/**
+ * Build scoring + optimizer search.
+ * No React here: this module is shared by the UI and the optimizer worker.
+ */
+
+// -----------------------------
+// Scoring
+// -----------------------------
+
+export type ScoringConfig = {
+  deficitWeight: number; // multiplier on the deficit penalty
+  deficitExponent: number; // 1 = linear, 2 = quadratic penalty per missing amount
+  wasteWeight: number; // per point above a target's cap
+  recommendedWeight: number; // per ★ recommended line
+  targetedWeight: number; // per point on a targeted buff
+  lineWeight: number; // per buff line of any kind
+  derived?: DerivedStatDef[]; // derived stats, usable in targets (formulas.ts)
+  objective?: ScoringObjective; // maximized once every minimum is met
+  scaling?: ScalingTable; // base -> effective values; default table if unset
+};
+
+export type ScoringObjective = {
+  stat: string; // a derived stat or buff
+  weight: number; // score per point of the stat; never negative
+};
+
+/** ScoringConfig keys that hold plain numbers (the weights). */
+export type ScoringWeightKey = Exclude<
+  keyof ScoringConfig,
+  "derived" | "objective" | "scaling"
+>;
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  deficitWeight: 1000,
+  deficitExponent: 2,
+  wasteWeight: 10,
+  recommendedWeight: 50,
+  targetedWeight: 2,
+  lineWeight: 0.1,
+};
+
+export const SCORING_PRESETS: { name: string; config: ScoringConfig }[] = [
+  { name: "Balanced (default)", config: DEFAULT_SCORING },
+  {
+    name: "Meet targets strictly",
+    config: {
+      deficitWeight: 1_000_000,
+      deficitExponent: 2,
+      wasteWeight: 100,
+      recommendedWeight: 50,
+      targetedWeight: 2,
+      lineWeight: 0.1,
+    },
+  },
+  {
+    name: "Maximize recommended",
+    config: {
+      deficitWeight: 100,
+      deficitExponent: 2,
+      wasteWeight: 10,
+      recommendedWeight: 500,
+      targetedWeight: 1,
+      lineWeight: 0.1,
+    },
+  },
+  {
+    name: "Max raw damage",
+    config: {
+      deficitWeight: 10,
+      deficitExponent: 1,
+      wasteWeight: 20,
+      recommendedWeight: 5,
+      targetedWeight: 20,
+      lineWeight: 0,
+    },
+  },
+];
+
+/**
+ * Clamps weights into the range the optimizer's bounds assume. Derived stats
+ * and the objective are kept only if well-formed (a formula that does not
+ * compile is kept too, and just yields no stat); a scaling table is repaired
+ * value by value.
+ */
+export function sanitizeScoring(config: Partial<ScoringConfig>): ScoringConfig {
+  const num = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) ? v : fallback;
+  const out: ScoringConfig = {
+    deficitWeight: Math.max(
+      0,
+      num(config.deficitWeight, DEFAULT_SCORING.deficitWeight)
+    ),
+    deficitExponent: Math.min(
+      4,
+      Math.max(1, num(config.deficitExponent, DEFAULT_SCORING.deficitExponent))
+    ),
+    wasteWeight: Math.max(
+      0,
+      num(config.wasteWeight, DEFAULT_SCORING.wasteWeight)
+    ),
+    recommendedWeight: num(
+      config.recommendedWeight,
+      DEFAULT_SCORING.recommendedWeight
+    ),
+    targetedWeight: num(config.targetedWeight, DEFAULT_SCORING.targetedWeight),
+    lineWeight: num(config.lineWeight, DEFAULT_SCORING.lineWeight),
+  };
+  if (Array.isArray(config.derived)) {
+    const derived = config.derived.filter(
+      (d: unknown): d is DerivedStatDef =>
+        typeof d === "object" &&
+        d !== null &&
+        typeof (d as DerivedStatDef).name === "string" &&
+        typeof (d as DerivedStatDef).expr === "string"
+    );
+    if (derived.length > 0) {
+      out.derived = derived.map((d) => ({ name: d.name, expr: d.expr }));
+    }
+  }
+  const objective = config.objective as Partial<ScoringObjective> | undefined;
+  if (typeof objective?.stat === "string" && objective.stat) {
+    out.objective = {
+      stat: objective.stat,
+      weight: Math.max(0, num(objective.weight, 1)),
+    };
+  }
+  if (config.scaling !== undefined) {
+    out.scaling = sanitizeScaling(config.scaling);
+  }
+  return out;
+}
+
+/** Lowest cap per targeted buff (Infinity when uncapped). */
+function targetCaps(targets: Targets) {
+  const caps = new Map<string, number>();
+  for (const [name, spec] of Object.entries(targets)) {
+    const key = normalizeBuffName(name);
+    if (!key) continue;
+    const cap = spec.max ?? Infinity;
+    caps.set(key, Math.min(caps.get(key) ?? Infinity, cap));
+  }
+  return caps;
+}
+
+/**
+ * Heuristic score:
+ * - Large penalty for any remaining deficit vs targets
+ * - Penalty for points wasted above a target's cap
+ * - Then reward recommended lines
+ * - Then reward total contribution to targeted buffs (up to their caps)
+ * - Once every minimum is met, reward the objective stat, if any
+ * Weights come from the ScoringConfig; each target's priority weight scales
+ * its deficit and waste. Totals use effective (scaled) line values, and
+ * active gear set bonuses add to them; derived stats are computed from those
+ * totals and appear in them under their own names, so targets can use them.
+ */
+export function scoreBuild(
+  items: Item[],
+  targets: Targets,
+  config: ScoringConfig = DEFAULT_SCORING
+) {
+  return scoreWithSets(items, setPieceCounts(items), targets, config);
+}
+
+/**
+ * scoreBuild with set bonuses taken from the given piece counts. Partial
+ * builds (during beam search) count the objective even with deficits left.
+ */
+function scoreWithSets(
+  items: Item[],
+  setCounts: Map<string, number>,
+  targets: Targets,
+  config: ScoringConfig,
+  partial = false
+) {
+  const totals: Record<string, number> = {};
+  let recommendedLines = 0;
+  let totalLines = 0;
+  for (const it of items) {
+    for (const b of it.buffs) {
+      const key = normalizeBuffName(b.name);
+      if (!key) continue;
+      totals[key] = (totals[key] ?? 0) + effectiveValue(it, b, config.scaling);
+      totalLines += 1;
+      if (b.recommended) recommendedLines += 1;
+    }
+  }
+  for (const [key, value] of Object.entries(setBonusTotals(setCounts))) {
+    totals[key] = (totals[key] ?? 0) + value;
+  }
+  const formulas = formulasOf(config.derived);
+  if (formulas) Object.assign(totals, formulas.evaluate(totals));
+
+  // Deficit penalty: quadratic by default to heavily prefer meeting requirements.
+  // Waste penalty: linear in points above the cap.
+  let deficitPenalty = 0;
+  let totalMissing = 0;
+  let wastePenalty = 0;
+  let totalWaste = 0;
+  for (const [name, spec] of Object.entries(targets)) {
+    const key = normalizeBuffName(name);
+    if (!key) continue;
+    const req = Number(spec.min) || 0;
+    const weight = spec.weight ?? 1;
+    const cur = Number(totals[key] ?? 0) || 0;
+    if (req > 0) {
+      const missing = Math.max(0, req - cur);
+      totalMissing += missing;
+      deficitPenalty += weight * Math.pow(missing, config.deficitExponent);
+    }
+    if (spec.max !== undefined) {
+      const waste = Math.max(0, cur - spec.max);
+      totalWaste += waste;
+      wastePenalty += weight * waste;
+    }
+  }
+
+  // Targeted contribution: sum of amounts on targeted buffs only, capped.
+  let targetedContribution = 0;
+  for (const [k, cap] of targetCaps(targets)) {
+    targetedContribution += Math.min(totals[k] ?? 0, cap);
+  }
+
+  const objective =
+    config.objective && (totalMissing === 0 || partial)
+      ? totals[normalizeBuffName(config.objective.stat)] ?? 0
+      : 0;
+
+  // Final score: higher is better.
+  // If deficits exist, the penalty dominates, forcing builds that meet targets when possible.
+  const score =
+    -deficitPenalty * config.deficitWeight + // dominate
+    -wastePenalty * config.wasteWeight +
+    recommendedLines * config.recommendedWeight +
+    targetedContribution * config.targetedWeight +
+    totalLines * config.lineWeight +
+    objective * (config.objective?.weight ?? 0);
+
+  return {
+    score,
+    objective, // objective stat value counted in the score (0 until targets are met)
+    deficitPenalty,
+    totalMissing,
+    wastePenalty,
+    totalWaste,
+    recommendedLines,
+    targetedContribution,
+    totalLines,
+    totals,
+  };
+}
+
+export function perItemHeuristic(
+  item: Item,
+  targets: Targets,
+  config: ScoringConfig = DEFAULT_SCORING
+) {
+  const targetKeys = new Set(Object.keys(targets).map(normalizeBuffName));
+  let targeted = 0;
+  let rec = 0;
+  for (const b of item.buffs) {
+    const key = normalizeBuffName(b.name);
+    if (!key) continue;
+    if (targetKeys.has(key)) {
+      targeted += effectiveValue(item, b, config.scaling);
+    }
+    if (b.recommended) rec += 1;
+  }
+  // quick filter only
+  return rec * config.recommendedWeight + targeted * config.targetedWeight;
+}
+
+// -----------------------------
+// Optimizer
+// -----------------------------
+
+export type OptimizerMode = "beam" | "exact";
+
+export const OPTIMIZER_MODES: { value: OptimizerMode; label: string }[] = [
+  { value: "beam", label: "Beam search (fast)" },
+  { value: "exact", label: "Exact (branch & bound)" },
+];
+
+export type OptimizeOptions = {
+  mode?: OptimizerMode;
+  topKPerSlot?: number;
+  beamWidth?: number;
+  maxNodes?: number; // exact mode
+  timeLimitMs?: number; // exact mode: branch-and-bound only, after the warm start
+  pinned?: Partial<Record<SlotKey, string | null>>; // slot -> itemId kept as-is (null keeps the slot empty)
+  topN?: number; // how many distinct builds to return
+  scoring?: ScoringConfig;
+};
+
+export type ExactSearchStats = {
+  proven: boolean; // true if the search space was exhausted
+  gap: number; // upper bound on how much better an unexplored build could score
+  nodes: number;
+  elapsedMs: number; // branch-and-bound time, after the warm start
+};
+
+export type OptimizedBuild = {
+  items: Item[];
+  score: ReturnType<typeof scoreBuild>;
+};
+
+export type OptimizeResult = {
+  mode: OptimizerMode;
+  best: Item[]; // same as builds[0]
+  bestScore: ReturnType<typeof scoreBuild>;
+  builds: OptimizedBuild[]; // best first, no two with the same item set
+  missingSlots: SlotKey[]; // slots no build can fill (place builds with placeItems)
+  unresolvedPins: SlotKey[]; // pinned slots left empty: the item is gone or no longer fits
+  searched: { topKPerSlot: number; beamWidth: number; beamSizeFinal: number };
+  exact?: ExactSearchStats;
+  cancelled?: boolean; // stopped by the user; best is the best build found so far
+};
+
+export type OptimizeProgress = {
+  slot: SlotKey | null; // slot currently being expanded
+  scored: number; // candidate builds scored so far
+  bestScore: number | null; // best-so-far score (partial builds during beam search)
+};
+
+/**
+ * A running search. Each `yield` reports progress; resuming it with `true`
+ * asks the search to stop and return the best build found so far.
+ */
+export type OptimizerSearch = Generator<
+  OptimizeProgress,
+  OptimizeResult,
+  boolean | undefined
+>;
+
+// How many candidates to score between progress reports.
+const PROGRESS_EVERY = 2000;
+
+// Best pieces of each gear set per slot that survive top-K pruning, so a set
+// can still be completed when its pieces are weak on their own.
+const SET_PIECES_KEPT = 2;
+
+/** Identity of a build by its item set, independent of slot order. */
+export function buildKey(items: Item[]) {
+  return items
+    .map((it) => it.id)
+    .sort()
+    .join("|");
+}
+
+/**
+ * One slot to fill. Both slots of a pair share one candidate list, and the
+ * second picks from later in the list than the first: every two distinct
+ * items are tried once, and no item fills both slots.
+ */
+type Stage = {
+  slot: SlotKey;
+  candidates: Item[];
+  after: number | null; // earlier stage sharing `candidates`
+  spare: number; // candidates left at the end of the list for later stages
+};
+
+/** Candidate index range [from, to) for a stage, given earlier picks. */
+function pickRange(stage: Stage, picks: number[]) {
+  return {
+    from: stage.after === null ? 0 : picks[stage.after] + 1,
+    to: stage.candidates.length - stage.spare,
+  };
+}
+
+/**
+ * Stages in slot order, plus the slots left empty for lack of items.
+ * - pinned slots only offer their pinned item (even if it is excluded)
+ * - other slots offer every item of their type that is not excluded or
+ *   pinned elsewhere, in the order `order` returns them (given how many
+ *   slots the list has to fill)
+ * - slots pinned empty are intentional and not reported missing
+ * - slots pinned to an item that is gone or does not fit stay empty and are
+ *   reported as unresolved pins
+ */
+function buildStages(
+  items: Item[],
+  opts: OptimizeOptions | undefined,
+  order: (pool: Item[], slots: number) => Item[]
+) {
+  const pinned = opts?.pinned ?? {};
+  const pinnedIds = new Set(Object.values(pinned));
+  const stages: Stage[] = [];
+  const missingSlots: SlotKey[] = [];
+  const unresolvedPins: SlotKey[] = [];
+  for (const type of SLOT_TYPES) {
+    const free: SlotKey[] = [];
+    for (const slot of SLOT_GROUPS[type]) {
+      if (!(slot in pinned)) {
+        free.push(slot);
+        continue;
+      }
+      const it = items.find((x) => x.id === pinned[slot] && fitsSlot(x, slot));
+      if (it) stages.push({ slot, candidates: [it], after: null, spare: 0 });
+      else if (pinned[slot]) unresolvedPins.push(slot);
+    }
+    const pool = order(
+      items.filter(
+        (it) => it.slot === type && !it.excluded && !pinnedIds.has(it.id)
+      ),
+      free.length
+    );
+    const n = Math.min(free.length, pool.length);
+    for (let i = 0; i < n; i++) {
+      stages.push({
+        slot: free[i],
+        candidates: pool,
+        after: i === 0 ? null : stages.length - 1,
+        spare: n - 1 - i,
+      });
+    }
+    missingSlots.push(...free.slice(n));
+  }
+  return { stages, missingSlots, unresolvedPins };
+}
+
+/** Runs a search to completion on the calling thread. */
+export function optimize(
+  items: Item[],
+  targets: Targets,
+  opts?: OptimizeOptions
+): OptimizeResult {
+  const search = optimizeSearch(items, targets, opts);
+  let step = search.next();
+  while (!step.done) step = search.next(false);
+  return step.value;
+}
+
+export function optimizeSearch(
+  items: Item[],
+  targets: Targets,
+  opts?: OptimizeOptions
+): OptimizerSearch {
+  if (opts?.mode === "exact") return exactSearch(items, targets, opts);
+  return beamSearch(items, targets, opts);
+}
+
+/**
+ * setSlotsFrom[i] = how many of stages i..end offer a piece of each gear set.
+ * A partial build's set can grow by at most that much.
+ */
+function setSlotsFrom(stages: Stage[]) {
+  const out: Map<string, number>[] = new Array(stages.length + 1);
+  out[stages.length] = new Map();
+  for (let i = stages.length - 1; i >= 0; i--) {
+    const acc = new Map(out[i + 1]);
+    for (const id of new Set(stages[i].candidates.map((it) => it.set))) {
+      if (id) acc.set(id, (acc.get(id) ?? 0) + 1);
+    }
+    out[i] = acc;
+  }
+  return out;
+}
+
+/**
+ * Fills the stages a partial build has not reached yet, one at a time, with
+ * whichever unused candidate scores best. Used when a beam search is
+ * cancelled.
+ */
+function completeGreedy(
+  chosen: Item[],
+  stages: Stage[],
+  targets: Targets,
+  scoring: ScoringConfig
+) {
+  const build = chosen.slice();
+  for (const stage of stages.slice(chosen.length)) {
+    let bestItem: Item | null = null;
+    let bestScore = -Infinity;
+    for (const cand of stage.candidates) {
+      if (build.includes(cand)) continue;
+      const s = scoreBuild([...build, cand], targets, scoring).score;
+      if (s > bestScore) {
+        bestScore = s;
+        bestItem = cand;
+      }
+    }
+    if (bestItem) build.push(bestItem);
+  }
+  return build;
+}
+
+/**
+ * Beam-search optimizer.
+ * - For each slot type, pre-sort candidate items by heuristic and keep top K,
+ *   plus the best few pieces of every gear set
+ * - Expand slot-by-slot, keeping top BEAM partial builds
+ * - Partial builds are scored as if each of their gear sets gets a piece in
+ *   every later slot that offers one, so set paths survive until complete
+ */
+function* beamSearch(
+  items: Item[],
+  targets: Targets,
+  opts?: OptimizeOptions
+): OptimizerSearch {
+  const topKPerSlot = opts?.topKPerSlot ?? 50;
+  const beamWidth = opts?.beamWidth ?? 2500;
+  const topN = Math.max(1, opts?.topN ?? 1);
+  const scoring = opts?.scoring ?? DEFAULT_SCORING;
+  const heuristic = (it: Item) => perItemHeuristic(it, targets, scoring);
+
+  // Pre-prune and sort candidates. If some slots have no items, optimization
+  // cannot fill all.
+  const { stages, missingSlots, unresolvedPins } = buildStages(
+    items,
+    opts,
+    (pool, slots) => {
+      const sorted = pool.slice().sort((a, b) => heuristic(b) - heuristic(a));
+      // One extra per extra slot, so pruning never leaves a slot empty.
+      const kept = sorted.slice(0, topKPerSlot + Math.max(0, slots - 1));
+      const perSet = new Map<string, number>();
+      for (const it of kept) {
+        if (it.set) perSet.set(it.set, (perSet.get(it.set) ?? 0) + 1);
+      }
+      for (const it of sorted.slice(kept.length)) {
+        if (!it.set || (perSet.get(it.set) ?? 0) >= SET_PIECES_KEPT) continue;
+        perSet.set(it.set, (perSet.get(it.set) ?? 0) + 1);
+        kept.push(it);
+      }
+      return kept;
+    }
+  );
+  const setsFrom = setSlotsFrom(stages);
+
+  type PartialBuild = {
+    chosen: Item[];
+    picks: number[]; // candidate index per stage
+    approxScore: number;
+  };
+
+  let beam: PartialBuild[] = [{ chosen: [], picks: [], approxScore: 0 }];
+  let scored = 0;
+  let cancelled = false;
+  let leader: PartialBuild | null = null;
+
+  for (const [stageIndex, stage] of stages.entries()) {
+    const { slot, candidates } = stage;
+    const later = setsFrom[stageIndex + 1];
+
+    const next: PartialBuild[] = [];
+    for (const p of beam) {
+      const { from, to } = pickRange(stage, p.picks);
+      for (let i = from; i < to; i++) {
+        const chosen = [...p.chosen, candidates[i]];
+        // Approx score using full score on partial (good enough for beam);
+        // exact once the last slot is filled.
+        const counts = setPieceCounts(chosen);
+        counts.forEach((n, id) => counts.set(id, n + (later.get(id) ?? 0)));
+        const last = stageIndex === stages.length - 1;
+        const s = scoreWithSets(chosen, counts, targets, scoring, !last);
+        const partial = {
+          chosen,
+          picks: [...p.picks, i],
+          approxScore: s.score,
+        };
+        next.push(partial);
+        if (!leader || partial.approxScore > leader.approxScore) {
+          leader = partial;
+        }
+        scored += 1;
+        if (scored % PROGRESS_EVERY === 0) {
+          const stop = yield { slot, scored, bestScore: leader.approxScore };
+          if (stop) {
+            cancelled = true;
+            break;
+          }
+        }
+      }
+      if (cancelled) break;
+    }
+    if (cancelled) break;
+
+    next.sort((a, b) => b.approxScore - a.approxScore);
+    beam = next.slice(0, beamWidth);
+    leader = beam[0] ?? null;
+  }
+
+  // Best N distinct builds among beam, or the best partial completed
+  // greedily if cancelled.
+  const builds: OptimizedBuild[] = [];
+  if (cancelled) {
+    const best = completeGreedy(leader?.chosen ?? [], stages, targets, scoring);
+    builds.push({ items: best, score: scoreBuild(best, targets, scoring) });
+  } else {
+    const seen = new Set<string>();
+    for (const p of beam) {
+      if (builds.length >= topN) break;
+      const key = buildKey(p.chosen);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      builds.push({
+        items: p.chosen,
+        score: scoreBuild(p.chosen, targets, scoring),
+      });
+    }
+    if (builds.length === 0) {
+      builds.push({ items: [], score: scoreBuild([], targets, scoring) });
+    }
+  }
+
+  return {
+    mode: "beam",
+    best: builds[0].items,
+    bestScore: builds[0].score,
+    builds,
+    missingSlots,
+    unresolvedPins,
+    searched: { topKPerSlot, beamWidth, beamSizeFinal: beam.length },
+    cancelled,
+  };
+}
+
+/**
+ * Branch-and-bound optimizer over all candidates (no top-K pruning).
+ * - Warm-starts from the beam result so the incumbents are never worse
+ * - Upper bound per node: each remaining slot contributes its best (or, for
+ *   over-cap waste, its smallest) value on every score term independently
+ *   (admissible, since every term is monotone in its buff total). Gear sets
+ *   likewise range from their current bonus to the bonus they would reach
+ *   with a piece in every remaining slot that offers one
+ * - Keeps the N best distinct builds; prunes against the N-th
+ * - Stops at maxNodes / timeLimitMs (counted from the end of the warm start)
+ *   and reports the remaining optimality gap: the best bound among the
+ *   children left unexplored
+ */
+function* exactSearch(
+  items: Item[],
+  targets: Targets,
+  opts?: OptimizeOptions
+): OptimizerSearch {
+  const maxNodes = opts?.maxNodes ?? 2_000_000;
+  const timeLimitMs = opts?.timeLimitMs ?? 5000;
+  const topN = Math.max(1, opts?.topN ?? 1);
+  const scoring = opts?.scoring ?? DEFAULT_SCORING;
+
+  const warm: OptimizeResult = yield* beamSearch(items, targets, opts);
+  if (warm.cancelled) return { ...warm, mode: "exact" };
+  const startedAt = Date.now();
+
+  const { stages } = buildStages(items, opts, (pool) =>
+    pool
+      .slice()
+      .sort(
+        (a, b) =>
+          perItemHeuristic(b, targets, scoring) -
+          perItemHeuristic(a, targets, scoring)
+      )
+  );
+
+  // Score terms mirrored from scoreBuild, precomputed per item: per-buff
+  // totals on targeted buffs and on the buffs derived stats read, plus the
+  // line terms (which simply add up). Derived stats get their range from the
+  // buff ranges by interval arithmetic.
+  const formulas = formulasOf(scoring.derived);
+  const derivedNames = new Set(formulas?.names ?? []);
+  const caps = targetCaps(targets);
+  const objectiveKey = scoring.objective
+    ? normalizeBuffName(scoring.objective.stat)
+    : null;
+  const keys = Array.from(
+    new Set([
+      ...Array.from(caps.keys()),
+      ...(formulas?.inputs ?? []),
+      ...(objectiveKey ? [objectiveKey] : []),
+    ])
+  ).filter((k) => !derivedNames.has(k));
+  const keyIndex = new Map(keys.map((k, i) => [k, i] as const));
+  const terms: { key: string; req: number; max?: number; weight: number }[] =
+    [];
+  for (const [name, spec] of Object.entries(targets)) {
+    const key = normalizeBuffName(name);
+    if (!key) continue;
+    terms.push({
+      key,
+      req: Number(spec.min) || 0,
+      max: spec.max,
+      weight: spec.weight ?? 1,
+    });
+  }
+
+  type Vec = { buffs: number[]; linear: number };
+  const vectorize = (it: Item): Vec => {
+    const buffs = keys.map(() => 0);
+    let linear = 0;
+    for (const b of it.buffs) {
+      const key = normalizeBuffName(b.name);
+      if (!key) continue;
+      const k = keyIndex.get(key);
+      if (k !== undefined) buffs[k] += effectiveValue(it, b, scoring.scaling);
+      linear += scoring.lineWeight;
+      if (b.recommended) linear += scoring.recommendedWeight;
+    }
+    return { buffs, linear };
+  };
+
+  const vecs = new Map(items.map((it) => [it, vectorize(it)]));
+  const candidates = stages.map((st) =>
+    st.candidates.map((it) => ({ it, vec: vecs.get(it)! }))
+  );
+
+  // suffixMax[i] / suffixMin[i] = range of what stages i..end can still add
+  // (over each stage's whole list, which bounds any pick range).
+  const suffix = (pick: (a: number, b: number) => number, from: number) => {
+    const out: Vec[] = new Array(stages.length + 1);
+    out[stages.length] = { buffs: keys.map(() => 0), linear: 0 };
+    for (let i = stages.length - 1; i >= 0; i--) {
+      const next = out[i + 1];
+      out[i] = {
+        buffs: keys.map(
+          (_, k) =>
+            next.buffs[k] +
+            candidates[i].reduce((m, c) => pick(m, c.vec.buffs[k]), from)
+        ),
+        linear:
+          next.linear +
+          candidates[i].reduce((m, c) => pick(m, c.vec.linear), from),
+      };
+    }
+    return out;
+  };
+  const suffixMax = suffix(Math.max, -Infinity);
+  const suffixMin = suffix(Math.min, Infinity);
+
+  // Set bonus on the targeted buffs by set and piece count (capped at the
+  // top tier), and how many remaining slots can still add to each set.
+  const setIndex = new Map(GEAR_SETS.map((set, i) => [set.id, i] as const));
+  const bonusAt = GEAR_SETS.map((set) =>
+    Array.from(
+      { length: set.tiers[set.tiers.length - 1].pieces + 1 },
+      (_, n) => {
+        const bonus = setBonusTotals(new Map([[set.id, n]]));
+        return keys.map((k) => bonus[k] ?? 0);
+      }
+    )
+  );
+  const bonusOf = (s: number, pieces: number) =>
+    bonusAt[s][Math.min(pieces, bonusAt[s].length - 1)];
+  const setsFrom = setSlotsFrom(stages);
+
+  // Every term is bounded by the most favourable end of its buff's range.
+  // At a leaf both ends coincide and this is exactly scoreBuild's score.
+  // The objective counts when every minimum may still be met, and exactly
+  // when every minimum is met for sure.
+  const boundOf = (
+    buffs: number[],
+    linear: number,
+    depth: number,
+    setCounts: number[]
+  ) => {
+    const hi = suffixMax[depth].buffs.slice();
+    const lo = suffixMin[depth].buffs.slice();
+    GEAR_SETS.forEach((set, s) => {
+      const now = bonusOf(s, setCounts[s]);
+      const reach = bonusOf(
+        s,
+        setCounts[s] + (setsFrom[depth].get(set.id) ?? 0)
+      );
+      for (let k = 0; k < keys.length; k++) {
+        hi[k] += reach[k];
+        lo[k] += now[k];
+      }
+    });
+    const low: Record<string, number> = {};
+    const high: Record<string, number> = {};
+    keys.forEach((key, k) => {
+      low[key] = buffs[k] + lo[k];
+      high[key] = buffs[k] + hi[k];
+    });
+    if (formulas) {
+      const ranges = formulas.interval(low, high);
+      for (const [name, [a, b]] of Object.entries(ranges)) {
+        low[name] = a;
+        high[name] = b;
+      }
+    }
+    let penalty = 0;
+    let waste = 0;
+    let canMeet = true;
+    let metForSure = true;
+    for (const t of terms) {
+      if (t.req > 0) {
+        const missing = Math.max(0, t.req - (high[t.key] ?? 0));
+        penalty += t.weight * Math.pow(missing, scoring.deficitExponent);
+        if (missing > 0) canMeet = false;
+        if ((low[t.key] ?? 0) < t.req) metForSure = false;
+      }
+      if (t.max !== undefined) {
+        waste += t.weight * Math.max(0, (low[t.key] ?? 0) - t.max);
+      }
+    }
+    let targeted = 0;
+    caps.forEach((cap, key) => {
+      const reach =
+        scoring.targetedWeight >= 0 ? high[key] ?? 0 : low[key] ?? 0;
+      targeted += Math.min(reach, cap);
+    });
+    let objective = 0;
+    if (objectiveKey && canMeet) {
+      const best = (high[objectiveKey] ?? 0) * scoring.objective!.weight;
+      objective = metForSure ? best : Math.max(0, best);
+    }
+    return (
+      -penalty * scoring.deficitWeight -
+      waste * scoring.wasteWeight +
+      targeted * scoring.targetedWeight +
+      linear +
+      suffixMax[depth].linear +
+      objective
+    );
+  };
+
+  // Incumbents, best first.
+  const top = warm.builds.map((b) => ({
+    items: b.items,
+    key: buildKey(b.items),
+    score: b.score.score,
+  }));
+  const threshold = () =>
+    top.length < topN ? -Infinity : top[top.length - 1].score;
+  let nodes = 0;
+  let aborted = false;
+  let cancelled = false;
+  let openBound = -Infinity;
+  const chosen: Item[] = [];
+  const picks: number[] = [];
+
+  // Running totals after adding candidate i of stage `depth`.
+  const child = (
+    depth: number,
+    i: number,
+    buffs: number[],
+    linear: number,
+    setCounts: number[]
+  ) => {
+    const c = candidates[depth][i];
+    const s = c.it.set === undefined ? undefined : setIndex.get(c.it.set);
+    return {
+      buffs: buffs.map((v, k) => v + c.vec.buffs[k]),
+      linear: linear + c.vec.linear,
+      setCounts:
+        s === undefined
+          ? setCounts
+          : setCounts.map((n, j) => (j === s ? n + 1 : n)),
+    };
+  };
+
+  function* visit(
+    depth: number,
+    buffs: number[],
+    linear: number,
+    setCounts: number[]
+  ): Generator<OptimizeProgress, void, boolean | undefined> {
+    const bound = boundOf(buffs, linear, depth, setCounts);
+    if (bound <= threshold()) return;
+    if (depth === stages.length) {
+      const key = buildKey(chosen);
+      if (top.some((t) => t.key === key)) return;
+      top.push({ items: chosen.slice(), key, score: bound });
+      top.sort((a, b) => b.score - a.score);
+      if (top.length > topN) top.pop();
+      return;
+    }
+    const { from, to } = pickRange(stages[depth], picks);
+    let i = from;
+    for (; i < to; i++) {
+      const c = candidates[depth][i];
+      if (aborted) break;
+      nodes += 1;
+      if (
+        nodes > maxNodes ||
+        ((nodes & 1023) === 0 && Date.now() - startedAt > timeLimitMs)
+      ) {
+        aborted = true;
+        break;
+      }
+      if (nodes % PROGRESS_EVERY === 0) {
+        const stop = yield {
+          slot: stages[depth].slot,
+          scored: nodes,
+          bestScore: top[0]?.score ?? null,
+        };
+        if (stop) {
+          aborted = true;
+          cancelled = true;
+          break;
+        }
+      }
+      chosen.push(c.it);
+      picks.push(i);
+      const next = child(depth, i, buffs, linear, setCounts);
+      yield* visit(depth + 1, next.buffs, next.linear, next.setCounts);
+      chosen.pop();
+      picks.pop();
+    }
+    // Children from i on were never entered (the one the search stopped in
+    // reports its own remainder); each is bounded by its own bound.
+    if (aborted) {
+      for (; i < to; i++) {
+        const next = child(depth, i, buffs, linear, setCounts);
+        openBound = Math.max(
+          openBound,
+          boundOf(next.buffs, next.linear, depth + 1, next.setCounts)
+        );
+      }
+    }
+  }
+
+  yield* visit(
+    0,
+    keys.map(() => 0),
+    0,
+    GEAR_SETS.map(() => 0)
+  );
+
+  const builds = top
+    .map((t) => ({
+      items: t.items,
+      score: scoreBuild(t.items, targets, scoring),
+    }))
+    .sort((a, b) => b.score.score - a.score.score);
+  const bestScore = builds[0].score;
+  return {
+    mode: "exact",
+    best: builds[0].items,
+    bestScore,
+    builds,
+    missingSlots: warm.missingSlots,
+    unresolvedPins: warm.unresolvedPins,
+    searched: warm.searched,
+    exact: {
+      proven: !aborted,
+      gap: aborted ? Math.max(0, openBound - bestScore.score) : 0,
+      nodes,
+      elapsedMs: Date.now() - startedAt,
+    },
+    cancelled,
+  };
+}
+
+// -----------------------------
+// Worker protocol
+// -----------------------------
+
+export type OptimizerRequest =
+  | {
+      type: "run";
+      runId: number;
+      items: Item[];
+      targets: Targets;
+      opts: OptimizeOptions;
+    }
+  | { type: "cancel"; runId: number };
+
+export type OptimizerResponse =
+  | { type: "progress"; runId: number; progress: OptimizeProgress }
+  | { type: "done"; runId: number; result: OptimizeResult }
+  | { type: "error"; runId: number; message: string };
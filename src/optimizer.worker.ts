@@ -0,0 +1,64 @@
+import {
+  OptimizerRequest,
+  OptimizerResponse,
+  OptimizerSearch,
+  optimizeSearch,
+} from "./optimizer";
+
+/**
+ * Optimizer worker.
+ * Steps the search in time slices so "cancel" messages get through between
+ * slices; a cancelled search still answers with its best build so far.
+ */
+
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+// Max time spent stepping the search before yielding to the message queue.
+const SLICE_MS = 50;
+
+type ActiveRun = {
+  runId: number;
+  search: OptimizerSearch;
+  cancelled: boolean;
+};
+
+let active: ActiveRun | null = null;
+
+function post(msg: OptimizerResponse) {
+  ctx.postMessage(msg);
+}
+
+function pump(run: ActiveRun) {
+  if (active !== run) return; // superseded by a newer run
+  try {
+    const sliceStart = Date.now();
+    let step = run.search.next(run.cancelled);
+    while (!step.done && Date.now() - sliceStart < SLICE_MS) {
+      step = run.search.next(run.cancelled);
+    }
+    if (step.done) {
+      post({ type: "done", runId: run.runId, result: step.value });
+      return;
+    }
+    post({ type: "progress", runId: run.runId, progress: step.value });
+    setTimeout(() => pump(run), 0);
+  } catch (err) {
+    post({ type: "error", runId: run.runId, message: String(err) });
+  }
+}
+
+ctx.onmessage = (e: MessageEvent<OptimizerRequest>) => {
+  const msg = e.data;
+  if (msg.type === "run") {
+    const run: ActiveRun = {
+      runId: msg.runId,
+      search: optimizeSearch(msg.items, msg.targets, msg.opts),
+      cancelled: false,
+    };
+    active = run;
+    pump(run);
+  } else if (msg.type === "cancel") {
+    if (active && active.runId === msg.runId) active.cancelled = true;
+  }
+};
@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { DEFAULT_SCORING } from "./optimizer";
+import {
+  HISTORY_STORAGE_KEY,
+  LEGACY_STORAGE_KEY,
+  QUARANTINE_PREFIX,
+  SCHEMA_VERSION,
+  STORAGE_KEY,
+  historyPersisted,
+  loadHistory,
+  loadPersisted,
+  parseVersioned,
+  saveHistory,
+  savePersisted,
+} from "./persistence";
+import { HistoryEntry } from "./plannerState";
+
+const line = (id: string, name: string, value: number) => ({
+  id,
+  name,
+  value,
+  recommended: false,
+});
+
+// Version 1: one build, items tied to a single slot.
+const v1 = {
+  items: [
+    {
+      id: "w",
+      name: "Blade",
+      slot: "Weapon 2",
+      buffs: [line("w.0", "ATK", 30)],
+    },
+    { id: "h", name: "Hat", slot: "Helmet", buffs: [] },
+  ],
+  equipped: { "Weapon 2": "w", Helmet: "h" },
+  targets: { Attack: 20 },
+  locked: { Helmet: true },
+};
+
+function quarantineKeys() {
+  return Object.keys(localStorage).filter((k) =>
+    k.startsWith(QUARANTINE_PREFIX)
+  );
+}
+
+beforeEach(() => localStorage.clear());
+
+describe("parseVersioned", () => {
+  it("migrates version 1 data into a Main character's Default loadout", () => {
+    const { state, issues, version } = parseVersioned(v1, true);
+    expect(issues).toEqual([]);
+    expect(version).toBe(1);
+    expect(state!.items.map((it) => [it.slot, it.buffs[0]?.name])).toEqual([
+      ["Weapon", "Attack"],
+      ["Helmet", undefined],
+    ]);
+    const [main] = state!.characters;
+    expect(main.name).toBe("Main");
+    expect(main.loadouts).toHaveLength(1);
+    expect(main.loadouts[0].equipped["Weapon 2"]).toBe("w");
+    expect(main.loadouts[0].targets).toEqual({ Attack: { min: 20 } });
+    expect(main.loadouts[0].locked).toEqual({ Helmet: true });
+  });
+
+  it("keeps the characters of version 1 saves that already had them", () => {
+    const characters = [
+      {
+        id: "c1",
+        name: "Alt",
+        activeLoadoutId: "l1",
+        loadouts: [{ id: "l1", name: "PvP", equipped: {}, targets: {} }],
+      },
+    ];
+    const { state } = parseVersioned({ ...v1, characters }, true);
+    expect(state!.characters.map((c) => c.name)).toEqual(["Alt"]);
+  });
+
+  it("moves version 2 items from a slot to its slot type", () => {
+    const v2 = parseVersioned(v1, true).state!;
+    const items = v2.items.map((it) =>
+      it.id === "w" ? { ...it, slot: "Weapon 1" } : it
+    );
+    const { state, issues } = parseVersioned({
+      version: 2,
+      data: { ...v2, items },
+    });
+    expect(issues).toEqual([]);
+    expect(state!.items[0].slot).toBe("Weapon");
+  });
+
+  it("passes current-version data through validation only", () => {
+    const current = parseVersioned(v1, true).state!;
+    const again = parseVersioned({ version: SCHEMA_VERSION, data: current });
+    expect(again).toEqual({ state: current, issues: [], version: 3 });
+  });
+
+  it("accepts unversioned exports that look like version 1 data", () => {
+    expect(parseVersioned(v1).version).toBe(1);
+  });
+
+  it("rejects unknown versions and data without one", () => {
+    expect(parseVersioned({ version: 99, data: {} }).state).toBeNull();
+    expect(parseVersioned({ version: 0, data: {} }).state).toBeNull();
+    expect(parseVersioned("nope").issues).toEqual(["missing schema version"]);
+  });
+
+  it("drops bad records and reports each by path", () => {
+    const current = parseVersioned(v1, true).state!;
+    const { state, issues } = parseVersioned({
+      version: SCHEMA_VERSION,
+      data: {
+        ...current,
+        items: [
+          ...current.items,
+          { id: "x", name: "Bad", slot: "Cape", buffs: [] },
+          { ...current.items[1], level: 0, rarity: "mythic" },
+        ],
+      },
+    });
+    expect(state!.items.map((it) => it.id)).toEqual(["w", "h"]);
+    expect(issues).toEqual([
+      'items[2].slot: unknown slot "Cape"',
+      'items[3].rarity: unknown rarity "mythic"',
+      expect.stringMatching(/^items\[3\]\.level: not a whole number/),
+      'items[3].id: duplicate id "h"',
+    ]);
+  });
+
+  it("unequips items that are missing or do not fit the slot", () => {
+    const current = parseVersioned(v1, true).state!;
+    const [main] = current.characters;
+    const equipped = { ...main.loadouts[0].equipped, Vest: "w", Arms: "gone" };
+    const { state, issues } = parseVersioned({
+      version: SCHEMA_VERSION,
+      data: {
+        ...current,
+        characters: [
+          { ...main, loadouts: [{ ...main.loadouts[0], equipped }] },
+        ],
+      },
+    });
+    const loaded = state!.characters[0].loadouts[0].equipped;
+    expect(loaded.Vest).toBeNull();
+    expect(loaded.Arms).toBeNull();
+    expect(loaded["Weapon 2"]).toBe("w");
+    expect(issues).toHaveLength(2);
+  });
+
+  it("fails when no character survives validation", () => {
+    const { state, issues } = parseVersioned({
+      version: SCHEMA_VERSION,
+      data: { items: [], characters: [{ id: "c", loadouts: [] }] },
+    });
+    expect(state).toBeNull();
+    expect(issues).toContain("characters: no valid characters");
+  });
+});
+
+describe("loadPersisted", () => {
+  it("round-trips a save", () => {
+    const state = parseVersioned(v1, true).state!;
+    savePersisted(state);
+    expect(loadPersisted()).toEqual({ status: "ok", state });
+  });
+
+  it("reads the legacy key and reports the version it migrated from", () => {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(v1));
+    const res = loadPersisted();
+    expect(res.status).toBe("ok");
+    expect(res.status === "ok" && res.migratedFrom).toBe(1);
+  });
+
+  it("quarantines data that is not JSON", () => {
+    localStorage.setItem(STORAGE_KEY, "{oops");
+    const res = loadPersisted();
+    expect(res.status).toBe("failed");
+    const keys = quarantineKeys();
+    expect(keys).toHaveLength(1);
+    expect(localStorage.getItem(keys[0])).toBe("{oops");
+  });
+
+  it("quarantines a save that loaded with repairs", () => {
+    const raw = JSON.stringify({
+      version: SCHEMA_VERSION,
+      data: {
+        ...parseVersioned(v1, true).state!,
+        scoring: "high",
+      },
+    });
+    localStorage.setItem(STORAGE_KEY, raw);
+    const res = loadPersisted();
+    expect(res.status).toBe("recovered");
+    expect(res.status === "recovered" && res.issues).toEqual([
+      "scoring: not an object",
+    ]);
+    expect(localStorage.getItem(quarantineKeys()[0])).toBe(raw);
+  });
+
+  it("starts empty when nothing is saved", () => {
+    expect(loadPersisted()).toEqual({ status: "empty" });
+  });
+});
+
+describe("saving near the storage quota", () => {
+  // A history entry of roughly `size` characters.
+  const entry = (label: string, size: number): HistoryEntry => {
+    const st = parseVersioned(v1, true).state!;
+    const items = st.items.map((it) => ({ ...it, name: "x".repeat(size) }));
+    return {
+      label,
+      state: {
+        ...st,
+        items,
+        activeCharacterId: "ch_main",
+        scoring: DEFAULT_SCORING,
+      },
+    };
+  };
+
+  it("keeps the undo steps nearest the present within the size budget", () => {
+    const past = ["a", "b", "c", "d"].map((l) => entry(l, 150_000));
+    const future = ["e", "f"].map((l) => entry(l, 150_000));
+    expect(saveHistory(past, future)).toBe(true);
+    const saved = loadHistory()!;
+    expect(saved.past.map((e) => e.label)).toEqual(["b", "c", "d"]);
+    expect(saved.future.map((e) => e.label)).toEqual([]);
+  });
+
+  it("empties the history to make room for the planner state", () => {
+    saveHistory([entry("a", 400_000)], []);
+    // Fill the rest of jsdom's 5 million character quota.
+    localStorage.setItem("filler", "x".repeat(4_000_000));
+    const state = parseVersioned(v1, true).state!;
+    const big = {
+      ...state,
+      items: state.items.map((it) => ({ ...it, name: "y".repeat(300_000) })),
+    };
+    expect(savePersisted(big)).toBe(true);
+    expect(loadHistory()).toEqual({ past: [], future: [] });
+    expect(historyPersisted()).toBe(true);
+    expect(localStorage.getItem(STORAGE_KEY)).toContain("yyy");
+  });
+
+  it("reports a save that does not fit", () => {
+    localStorage.setItem("filler", "x".repeat(4_999_900));
+    expect(savePersisted(parseVersioned(v1, true).state!)).toBe(false);
+    expect(saveHistory([entry("a", 1000)], [])).toBe(false);
+    expect(localStorage.getItem(HISTORY_STORAGE_KEY)).toBeNull();
+  });
+});
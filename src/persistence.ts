@@ -0,0 +1,696 @@
+import {
+  BuffLine,
+  Character,
+  Equipped,
+  Item,
+  Loadout,
+  LockedSlots,
+  SLOTS,
+  SLOT_TYPES,
+  SlotKey,
+  SlotType,
+  Targets,
+  emptyEquipped,
+  fitsSlot,
+  normalizeBuffName,
+  parseSlotType,
+  toTargetSpec,
+} from "./model";
+import { DEFAULT_SCORING, ScoringConfig, sanitizeScoring } from "./optimizer";
+import { HistoryEntry, PlannerData } from "./plannerState";
+import { MAX_LEVEL, MAX_RANK, RARITIES } from "./scaling";
+
+/**
+ * Versioned localStorage persistence.
+ * Saves are wrapped in an envelope carrying the schema version; loads run the
+ * migration chain up to SCHEMA_VERSION and then validate every record. Data
+ * that fails validation is copied to a quarantine key before anything else
+ * can overwrite it.
+ */
+
+// -----------------------------
+// Types
+// -----------------------------
+
+export type PlannerState = {
+  items: Item[];
+  characters: Character[]; // never empty
+  activeCharacterId?: string;
+  scoring?: ScoringConfig;
+};
+
+type Envelope = {
+  version: number;
+  savedAt: string; // ISO timestamp
+  data: unknown;
+};
+
+export type LoadResult =
+  | { status: "empty" }
+  | { status: "ok"; state: PlannerState; migratedFrom?: number }
+  | {
+      // Loaded, but invalid records were dropped or repaired.
+      status: "recovered";
+      state: PlannerState;
+      issues: string[];
+      quarantineKey: string | null;
+      raw: string;
+    }
+  | {
+      // Nothing usable; the app starts empty.
+      status: "failed";
+      issues: string[];
+      quarantineKey: string | null;
+      raw: string;
+    };
+
+// -----------------------------
+// Keys & versions
+// -----------------------------
+
+export const STORAGE_KEY = "wwm_build_planner";
+export const LEGACY_STORAGE_KEY = "wwm_build_planner_v1";
+export const QUARANTINE_PREFIX = "wwm_build_planner_quarantine_";
+export const HISTORY_STORAGE_KEY = "wwm_build_planner_history";
+
+/** Version 1 is the unversioned object stored under LEGACY_STORAGE_KEY. */
+export const SCHEMA_VERSION = 3;
+
+// -----------------------------
+// Migrations
+// -----------------------------
+
+type Migration = (data: unknown) => unknown;
+
+// MIGRATIONS[n] upgrades version n data to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: single equipped/targets/locked build becomes the "Default"
+  // loadout of a "Main" character (saves that already have characters pass
+  // through unchanged).
+  1: (d) => {
+    if (!isObject(d)) return d;
+    if (Array.isArray(d.characters) && d.characters.length > 0) {
+      return {
+        items: d.items,
+        characters: d.characters,
+        activeCharacterId: d.activeCharacterId,
+        scoring: d.scoring,
+      };
+    }
+    return {
+      items: d.items,
+      characters: [
+        {
+          id: "ch_main",
+          name: "Main",
+          activeLoadoutId: "lo_default",
+          loadouts: [
+            {
+              id: "lo_default",
+              name: "Default",
+              equipped: d.equipped ?? emptyEquipped(),
+              targets: d.targets ?? {},
+              locked: d.locked ?? {},
+            },
+          ],
+        },
+      ],
+      scoring: d.scoring,
+    };
+  },
+  // v2 -> v3: items belong to a slot type instead of one slot ("Weapon 1"
+  // and "Weapon 2" items both become "Weapon").
+  2: (d) => {
+    if (!isObject(d) || !Array.isArray(d.items)) return d;
+    return {
+      ...d,
+      items: d.items.map((it: unknown) =>
+        isObject(it) && typeof it.slot === "string"
+          ? { ...it, slot: parseSlotType(it.slot) ?? it.slot }
+          : it
+      ),
+    };
+  },
+};
+
+function migrate(data: unknown, from: number): unknown {
+  let out = data;
+  for (let v = from; v < SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from version ${v}`);
+    out = step(out);
+  }
+  return out;
+}
+
+// -----------------------------
+// Validators
+// -----------------------------
+// Each validator returns a cleaned copy (or null when the record is unusable)
+// and appends a message per problem, prefixed with the record's path.
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+export function validateBuffLine(
+  raw: unknown,
+  path: string,
+  issues: string[]
+): BuffLine | null {
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return null;
+  }
+  if (!isNonEmptyString(raw.id)) {
+    issues.push(`${path}.id: missing`);
+    return null;
+  }
+  if (!isNonEmptyString(raw.name)) {
+    issues.push(`${path}.name: missing`);
+    return null;
+  }
+  if (typeof raw.value !== "number" || !Number.isFinite(raw.value)) {
+    issues.push(`${path}.value: not a number`);
+    return null;
+  }
+  if (raw.recommended !== undefined && typeof raw.recommended !== "boolean") {
+    issues.push(`${path}.recommended: not true/false, treated as false`);
+  }
+  return {
+    id: raw.id,
+    name: normalizeBuffName(raw.name),
+    value: raw.value,
+    recommended: raw.recommended === true,
+  };
+}
+
+/** Whole number in [min, max]; anything else is reported and dropped. */
+function validateIntIn(
+  raw: unknown,
+  min: number,
+  max: number,
+  path: string,
+  issues: string[]
+): number | undefined {
+  if (raw === undefined) return undefined;
+  if (
+    typeof raw !== "number" ||
+    !Number.isInteger(raw) ||
+    raw < min ||
+    raw > max
+  ) {
+    issues.push(`${path}: not a whole number from ${min} to ${max}`);
+    return undefined;
+  }
+  return raw;
+}
+
+export function validateItem(
+  raw: unknown,
+  path: string,
+  issues: string[]
+): Item | null {
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return null;
+  }
+  if (!isNonEmptyString(raw.id)) {
+    issues.push(`${path}.id: missing`);
+    return null;
+  }
+  if (typeof raw.name !== "string") {
+    issues.push(`${path}.name: missing`);
+    return null;
+  }
+  if (!SLOT_TYPES.includes(raw.slot as SlotType)) {
+    issues.push(`${path}.slot: unknown slot ${JSON.stringify(raw.slot)}`);
+    return null;
+  }
+  const buffs: BuffLine[] = [];
+  if (!Array.isArray(raw.buffs)) {
+    issues.push(`${path}.buffs: not a list`);
+  } else {
+    raw.buffs.forEach((b, i) => {
+      const line = validateBuffLine(b, `${path}.buffs[${i}]`, issues);
+      if (line) buffs.push(line);
+    });
+  }
+  const item: Item = {
+    id: raw.id,
+    name: raw.name,
+    slot: raw.slot as SlotType,
+    buffs,
+  };
+  if (typeof raw.set === "string" && raw.set) {
+    // Kept even if unknown to this version's registry; it just grants nothing.
+    item.set = raw.set;
+  } else if (raw.set !== undefined) {
+    issues.push(`${path}.set: not a gear set id`);
+  }
+  if (RARITIES.some((r) => r.id === raw.rarity)) {
+    item.rarity = raw.rarity as Item["rarity"];
+  } else if (raw.rarity !== undefined) {
+    issues.push(`${path}.rarity: unknown rarity ${JSON.stringify(raw.rarity)}`);
+  }
+  const level = validateIntIn(raw.level, 1, MAX_LEVEL, `${path}.level`, issues);
+  if (level !== undefined) item.level = level;
+  const rank = validateIntIn(raw.rank, 0, MAX_RANK, `${path}.rank`, issues);
+  if (rank !== undefined) item.rank = rank;
+  if (raw.excluded === true) item.excluded = true;
+  return item;
+}
+
+/**
+ * Unknown slots are dropped; references to missing items, items of another
+ * slot type and repeats of an item already equipped are unequipped.
+ */
+export function validateEquipped(
+  raw: unknown,
+  byId: Map<string, Item>,
+  path: string,
+  issues: string[]
+): Equipped {
+  const equipped = emptyEquipped();
+  if (raw === undefined || raw === null) return equipped;
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return equipped;
+  }
+  for (const [slot, id] of Object.entries(raw)) {
+    if (!SLOTS.includes(slot as SlotKey)) {
+      issues.push(`${path}: unknown slot "${slot}"`);
+    } else if (id === null || id === undefined) {
+      continue;
+    } else if (typeof id !== "string" || !byId.has(id)) {
+      issues.push(`${path}.${slot}: item ${JSON.stringify(id)} not found`);
+    } else if (!fitsSlot(byId.get(id)!, slot as SlotKey)) {
+      issues.push(`${path}.${slot}: item "${id}" does not fit this slot`);
+    } else if (Object.values(equipped).includes(id)) {
+      issues.push(`${path}.${slot}: item "${id}" is already equipped`);
+    } else {
+      equipped[slot as SlotKey] = id;
+    }
+  }
+  return equipped;
+}
+
+export function validateTargets(
+  raw: unknown,
+  path: string,
+  issues: string[]
+): Targets {
+  const targets: Targets = {};
+  if (raw === undefined || raw === null) return targets;
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return targets;
+  }
+  for (const [name, value] of Object.entries(raw)) {
+    const key = normalizeBuffName(name);
+    const spec = toTargetSpec(value);
+    if (!key || !spec) {
+      issues.push(`${path}.${name}: not a valid target`);
+    } else if (spec.max !== undefined && spec.max < spec.min) {
+      issues.push(`${path}.${name}: max is below min`);
+    } else {
+      targets[key] = spec;
+    }
+  }
+  return targets;
+}
+
+function validateLocked(
+  raw: unknown,
+  path: string,
+  issues: string[]
+): LockedSlots {
+  const locked: LockedSlots = {};
+  if (raw === undefined || raw === null) return locked;
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return locked;
+  }
+  for (const [slot, on] of Object.entries(raw)) {
+    if (!SLOTS.includes(slot as SlotKey)) {
+      issues.push(`${path}: unknown slot "${slot}"`);
+    } else if (on === true) {
+      locked[slot as SlotKey] = true;
+    }
+  }
+  return locked;
+}
+
+function validateLoadout(
+  raw: unknown,
+  byId: Map<string, Item>,
+  path: string,
+  issues: string[]
+): Loadout | null {
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return null;
+  }
+  if (!isNonEmptyString(raw.id)) {
+    issues.push(`${path}.id: missing`);
+    return null;
+  }
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" ? raw.name : "Loadout",
+    equipped: validateEquipped(raw.equipped, byId, `${path}.equipped`, issues),
+    targets: validateTargets(raw.targets, `${path}.targets`, issues),
+    locked: validateLocked(raw.locked, `${path}.locked`, issues),
+  };
+}
+
+function validateCharacter(
+  raw: unknown,
+  byId: Map<string, Item>,
+  path: string,
+  issues: string[]
+): Character | null {
+  if (!isObject(raw)) {
+    issues.push(`${path}: not an object`);
+    return null;
+  }
+  if (!isNonEmptyString(raw.id)) {
+    issues.push(`${path}.id: missing`);
+    return null;
+  }
+  const loadouts: Loadout[] = [];
+  if (Array.isArray(raw.loadouts)) {
+    raw.loadouts.forEach((l, i) => {
+      const lo = validateLoadout(l, byId, `${path}.loadouts[${i}]`, issues);
+      if (lo) loadouts.push(lo);
+    });
+  }
+  if (loadouts.length === 0) {
+    issues.push(`${path}.loadouts: no valid loadouts`);
+    return null;
+  }
+  const active = loadouts.find((l) => l.id === raw.activeLoadoutId);
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" ? raw.name : "Character",
+    loadouts,
+    activeLoadoutId: (active ?? loadouts[0]).id,
+  };
+}
+
+/** Validates current-version data. Returns null state when nothing is usable. */
+export function validateState(raw: unknown): {
+  state: PlannerState | null;
+  issues: string[];
+} {
+  const issues: string[] = [];
+  if (!isObject(raw)) return { state: null, issues: ["data: not an object"] };
+  if (!Array.isArray(raw.items)) {
+    return { state: null, issues: ["items: not a list"] };
+  }
+
+  const items: Item[] = [];
+  const byId = new Map<string, Item>();
+  raw.items.forEach((x, i) => {
+    const item = validateItem(x, `items[${i}]`, issues);
+    if (!item) return;
+    if (byId.has(item.id)) {
+      issues.push(`items[${i}].id: duplicate id "${item.id}"`);
+      return;
+    }
+    byId.set(item.id, item);
+    items.push(item);
+  });
+
+  const characters: Character[] = [];
+  if (Array.isArray(raw.characters)) {
+    raw.characters.forEach((c, i) => {
+      const ch = validateCharacter(c, byId, `characters[${i}]`, issues);
+      if (ch) characters.push(ch);
+    });
+  }
+  if (characters.length === 0) {
+    return {
+      state: null,
+      issues: [...issues, "characters: no valid characters"],
+    };
+  }
+
+  const state: PlannerState = { items, characters };
+  if (typeof raw.activeCharacterId === "string") {
+    state.activeCharacterId = raw.activeCharacterId;
+  }
+  if (raw.scoring !== undefined) {
+    if (isObject(raw.scoring)) state.scoring = sanitizeScoring(raw.scoring);
+    else issues.push("scoring: not an object");
+  }
+  return { state, issues };
+}
+
+// -----------------------------
+// Storage
+// -----------------------------
+
+/** Copies raw data to a fresh quarantine key; null if storage refused it. */
+function quarantine(raw: string): string | null {
+  const key = `${QUARANTINE_PREFIX}${Date.now()}`;
+  try {
+    localStorage.setItem(key, raw);
+    return key;
+  } catch {
+    return null;
+  }
+}
+
+function failed(raw: string, issues: string[]): LoadResult {
+  return { status: "failed", issues, quarantineKey: quarantine(raw), raw };
+}
+
+/**
+ * Migrates and validates parsed data: a versioned envelope, or (with
+ * `legacy`) the bare version 1 object. Unversioned objects that look like
+ * version 1 data are also accepted, for files exported before envelopes.
+ */
+export function parseVersioned(
+  parsed: unknown,
+  legacy = false
+): { state: PlannerState | null; issues: string[]; version?: number } {
+  let version: number;
+  let data: unknown;
+  const env = parsed as Partial<Envelope> & { items?: unknown };
+  if (isObject(env) && Number.isInteger(env.version) && !legacy) {
+    version = env.version as number;
+    data = env.data;
+  } else if (isObject(env) && (legacy || Array.isArray(env.items))) {
+    version = 1;
+    data = env;
+  } else {
+    return { state: null, issues: ["missing schema version"] };
+  }
+  if (version < 1 || version > SCHEMA_VERSION) {
+    return {
+      state: null,
+      issues: [
+        `schema version ${version} is not supported (expected 1–${SCHEMA_VERSION})`,
+      ],
+    };
+  }
+
+  try {
+    data = migrate(data, version);
+  } catch (err) {
+    return { state: null, issues: [`migration failed: ${String(err)}`] };
+  }
+  return { ...validateState(data), version };
+}
+
+export function loadPersisted(): LoadResult {
+  let raw: string | null;
+  let legacy = false;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) {
+      raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+      legacy = raw !== null;
+    }
+  } catch {
+    return { status: "empty" }; // storage unavailable (e.g., privacy mode)
+  }
+  if (raw === null) return { status: "empty" };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return failed(raw, ["not valid JSON"]);
+  }
+
+  const { state, issues, version = 1 } = parseVersioned(parsed, legacy);
+  if (!state) return failed(raw, issues);
+  if (issues.length > 0) {
+    return {
+      status: "recovered",
+      state,
+      issues,
+      quarantineKey: quarantine(raw),
+      raw,
+    };
+  }
+  return {
+    status: "ok",
+    state,
+    migratedFrom: version < SCHEMA_VERSION ? version : undefined,
+  };
+}
+
+/**
+ * Saves the planner state; false if storage refused it. The state has
+ * priority over the undo history, whose entries are dropped to make room.
+ */
+export function savePersisted(state: PlannerState): boolean {
+  const env: Envelope = {
+    version: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data: state,
+  };
+  const text = JSON.stringify(env);
+  try {
+    localStorage.setItem(STORAGE_KEY, text);
+    return true;
+  } catch {
+    // quota exceeded / storage unavailable
+  }
+  if (!historyPersisted()) return false;
+  emptyHistory();
+  try {
+    localStorage.setItem(STORAGE_KEY, text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// -----------------------------
+// Undo history (opt-in)
+// -----------------------------
+// Stored separately from the planner state; anything unreadable is discarded
+// rather than quarantined, since the history is only a convenience.
+
+const PERSISTED_HISTORY_LIMIT = 20;
+// Characters of history kept; browsers allow about 5 million per origin.
+const PERSISTED_HISTORY_BUDGET = 1_000_000;
+
+function toPlannerData(st: PlannerState): PlannerData {
+  return {
+    items: st.items,
+    characters: st.characters,
+    activeCharacterId: st.activeCharacterId ?? null,
+    scoring: st.scoring ?? DEFAULT_SCORING,
+  };
+}
+
+function readHistoryEntries(raw: unknown): HistoryEntry[] | null {
+  if (!Array.isArray(raw)) return null;
+  const out: HistoryEntry[] = [];
+  for (const e of raw) {
+    if (!isObject(e) || typeof e.label !== "string") return null;
+    const { state, issues } = validateState(e.state);
+    if (!state || issues.length > 0) return null;
+    out.push({ state: toPlannerData(state), label: e.label });
+  }
+  return out;
+}
+
+export function loadHistory(): {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+} | null {
+  try {
+    const raw = localStorage.getItem(HISTORY_STORAGE_KEY);
+    if (raw === null) return null;
+    const env = JSON.parse(raw);
+    if (!isObject(env) || env.version !== SCHEMA_VERSION) return null;
+    const data = env.data as Record<string, unknown>;
+    const past = readHistoryEntries(data?.past);
+    const future = readHistoryEntries(data?.future);
+    return past && future ? { past, future } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether the user opted in to keeping undo history across reloads. */
+export function historyPersisted() {
+  try {
+    return localStorage.getItem(HISTORY_STORAGE_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function writeHistory(past: HistoryEntry[], future: HistoryEntry[]) {
+  const env: Envelope = {
+    version: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data: { past, future },
+  };
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(env));
+}
+
+/** Keeps the opt-in but frees the space the entries took. */
+function emptyHistory() {
+  try {
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    writeHistory([], []);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Keeps the undo steps nearest the current state, up to
+ * PERSISTED_HISTORY_LIMIT each way and PERSISTED_HISTORY_BUDGET characters
+ * in all, undo steps first. False if storage refused even that; the stored
+ * history is then emptied.
+ */
+export function saveHistory(
+  past: HistoryEntry[],
+  future: HistoryEntry[]
+): boolean {
+  let room = PERSISTED_HISTORY_BUDGET;
+  const fits = (e: HistoryEntry) => {
+    const size = JSON.stringify(e).length;
+    if (size > room) return false;
+    room -= size;
+    return true;
+  };
+  const keptPast: HistoryEntry[] = [];
+  for (const e of past.slice(-PERSISTED_HISTORY_LIMIT).reverse()) {
+    if (!fits(e)) break;
+    keptPast.unshift(e);
+  }
+  const keptFuture: HistoryEntry[] = [];
+  for (const e of future.slice(0, PERSISTED_HISTORY_LIMIT)) {
+    if (!fits(e)) break;
+    keptFuture.push(e);
+  }
+  try {
+    writeHistory(keptPast, keptFuture);
+  } catch {
+    emptyHistory();
+    return false;
+  }
+  return true;
+}
+
+export function clearHistory() {
+  try {
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
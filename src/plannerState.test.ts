@@ -0,0 +1,77 @@
+import { describe, expect, it } from "@jest/globals";
+import { emptyEquipped } from "./model";
+import { DEFAULT_SCORING, ScoringConfig } from "./optimizer";
+import { PlannerData, createHistory, historyReducer } from "./plannerState";
+import { item } from "./testUtils";
+
+const data: PlannerData = {
+  items: [
+    item("blade", "Weapon", [["Attack", 10]]),
+    item("hat", "Helmet", [["Defense", 5]]),
+  ],
+  characters: [
+    {
+      id: "c1",
+      name: "Main",
+      activeLoadoutId: "l1",
+      loadouts: [
+        {
+          id: "l1",
+          name: "PvE",
+          equipped: emptyEquipped(),
+          locked: {},
+          targets: {},
+        },
+      ],
+    },
+  ],
+  activeCharacterId: "c1",
+  scoring: DEFAULT_SCORING,
+};
+
+const equipped = (h: ReturnType<typeof createHistory>) =>
+  h.present.characters[0].loadouts[0].equipped;
+
+describe("loadout/equip", () => {
+  it("equips items only in slots they fit", () => {
+    let h = createHistory(data);
+    h = historyReducer(h, {
+      type: "loadout/equip",
+      slot: "Weapon 2",
+      itemId: "blade",
+    });
+    expect(equipped(h)["Weapon 2"]).toBe("blade");
+    const before = h;
+    for (const action of [
+      { slot: "Helmet", itemId: "blade" },
+      { slot: "Helmet", itemId: "gone" },
+    ] as const) {
+      h = historyReducer(h, { type: "loadout/equip", ...action });
+    }
+    expect(h).toBe(before);
+    expect(h.past).toHaveLength(1);
+  });
+});
+
+describe("scoring/set undo steps", () => {
+  const set = (
+    h: ReturnType<typeof createHistory>,
+    patch: Partial<ScoringConfig>
+  ) =>
+    historyReducer(h, {
+      type: "scoring/set",
+      scoring: { ...h.present.scoring, ...patch },
+    });
+
+  it("merge consecutive edits of one field but not of different fields", () => {
+    let h = createHistory(data);
+    h = set(h, { deficitWeight: 2 });
+    h = set(h, { deficitWeight: 3 });
+    expect(h.past).toHaveLength(1);
+    h = set(h, { wasteWeight: 4 });
+    expect(h.past).toHaveLength(2);
+    h = historyReducer(h, { type: "history/undo" });
+    expect(h.present.scoring.deficitWeight).toBe(3);
+    expect(h.present.scoring.wasteWeight).toBe(DEFAULT_SCORING.wasteWeight);
+  });
+});
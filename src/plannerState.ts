@@ -0,0 +1,374 @@
+import { Character, Item, Loadout, SLOTS, SlotKey, fitsSlot } from "./model";
+import { ScoringConfig } from "./optimizer";
+
+/**
+ * Planner state reducer with bounded undo/redo.
+ * Every change to items, loadouts, targets or scoring goes through
+ * plannerReducer as a PlannerAction, which is what makes it undoable.
+ */
+
+// -----------------------------
+// Types
+// -----------------------------
+
+export type PlannerData = {
+  items: Item[];
+  characters: Character[]; // never empty
+  activeCharacterId: string | null;
+  scoring: ScoringConfig;
+};
+
+export type PlannerAction =
+  | { type: "item/save"; item: Item } // add (at the top) or replace by id
+  | { type: "items/add"; items: Item[] }
+  | { type: "item/delete"; itemId: string }
+  | { type: "items/delete"; itemIds: string[] }
+  | { type: "item/toggleExcluded"; itemId: string }
+  | {
+      type: "loadout/update"; // active loadout
+      patch: Partial<Omit<Loadout, "id">>;
+    }
+  | { type: "loadout/equip"; slot: SlotKey; itemId: string | null } // moves the item if equipped elsewhere; ignored if it does not fit
+  | { type: "loadout/toggleLock"; slot: SlotKey }
+  | { type: "loadout/add"; loadout: Loadout } // to the active character, selected
+  | { type: "loadout/select"; loadoutId: string }
+  | { type: "loadout/delete"; loadoutId: string }
+  | { type: "character/add"; character: Character } // selected
+  | { type: "character/select"; characterId: string }
+  | { type: "character/rename"; name: string }
+  | { type: "character/delete"; characterId: string }
+  | { type: "scoring/set"; scoring: ScoringConfig }
+  | { type: "state/replace"; state: PlannerData; label: string };
+
+export type HistoryEntry = {
+  state: PlannerData;
+  label: string; // the action between this state and the next one
+};
+
+export type PlannerHistory = {
+  past: HistoryEntry[]; // oldest first
+  present: PlannerData;
+  future: HistoryEntry[]; // next redo first
+  mergeKey: string | null; // lets repeated edits (typing a name) share one step
+};
+
+export type HistoryAction =
+  | PlannerAction
+  | { type: "history/undo" }
+  | { type: "history/redo" }
+  | {
+      // Replaces everything without recording a step (initial load).
+      type: "history/load";
+      state: PlannerData;
+      past?: HistoryEntry[];
+      future?: HistoryEntry[];
+    };
+
+export const HISTORY_LIMIT = 50;
+
+// -----------------------------
+// Planner reducer
+// -----------------------------
+
+function activeCharacter(s: PlannerData) {
+  return (
+    s.characters.find((c) => c.id === s.activeCharacterId) ?? s.characters[0]
+  );
+}
+
+function mapActiveCharacter(
+  s: PlannerData,
+  fn: (c: Character) => Character
+): PlannerData {
+  const cid = activeCharacter(s).id;
+  return {
+    ...s,
+    characters: s.characters.map((c) => (c.id === cid ? fn(c) : c)),
+  };
+}
+
+function mapActiveLoadout(
+  s: PlannerData,
+  fn: (l: Loadout) => Loadout
+): PlannerData {
+  return mapActiveCharacter(s, (c) => {
+    const lid = (
+      c.loadouts.find((l) => l.id === c.activeLoadoutId) ?? c.loadouts[0]
+    ).id;
+    return {
+      ...c,
+      loadouts: c.loadouts.map((l) => (l.id === lid ? fn(l) : l)),
+    };
+  });
+}
+
+// The inventory is shared, so every loadout drops the slots `unequip` picks.
+function unequipWhere(
+  s: PlannerData,
+  unequip: (slot: SlotKey, itemId: string) => boolean
+): PlannerData {
+  return {
+    ...s,
+    characters: s.characters.map((c) => ({
+      ...c,
+      loadouts: c.loadouts.map((l) => {
+        const equipped = { ...l.equipped };
+        for (const slot of SLOTS) {
+          const id = equipped[slot];
+          if (id && unequip(slot, id)) equipped[slot] = null;
+        }
+        return { ...l, equipped };
+      }),
+    })),
+  };
+}
+
+function deleteItems(s: PlannerData, itemIds: string[]): PlannerData {
+  const ids = new Set(itemIds);
+  if (!s.items.some((x) => ids.has(x.id))) return s;
+  return unequipWhere(
+    { ...s, items: s.items.filter((x) => !ids.has(x.id)) },
+    (_, id) => ids.has(id)
+  );
+}
+
+export function plannerReducer(
+  s: PlannerData,
+  action: PlannerAction
+): PlannerData {
+  switch (action.type) {
+    case "item/save": {
+      const { item } = action;
+      const exists = s.items.some((x) => x.id === item.id);
+      // A new slot type unequips the item wherever it no longer fits.
+      return unequipWhere(
+        {
+          ...s,
+          items: exists
+            ? s.items.map((x) => (x.id === item.id ? item : x))
+            : [item, ...s.items],
+        },
+        (slot, id) => id === item.id && !fitsSlot(item, slot)
+      );
+    }
+    case "items/add":
+      return { ...s, items: [...s.items, ...action.items] };
+    case "item/delete":
+      return deleteItems(s, [action.itemId]);
+    case "items/delete":
+      return deleteItems(s, action.itemIds);
+    case "item/toggleExcluded":
+      return {
+        ...s,
+        items: s.items.map((x) =>
+          x.id === action.itemId ? { ...x, excluded: !x.excluded } : x
+        ),
+      };
+    case "loadout/update":
+      return mapActiveLoadout(s, (l) => ({ ...l, ...action.patch }));
+    case "loadout/equip": {
+      // A stale dispatch may name an item that is gone or was retyped.
+      const item = action.itemId
+        ? s.items.find((x) => x.id === action.itemId)
+        : null;
+      if (item === undefined || (item && !fitsSlot(item, action.slot))) {
+        return s;
+      }
+      return mapActiveLoadout(s, (l) => {
+        const equipped = { ...l.equipped };
+        for (const slot of SLOTS) {
+          if (action.itemId && equipped[slot] === action.itemId) {
+            equipped[slot] = null;
+          }
+        }
+        equipped[action.slot] = action.itemId;
+        return { ...l, equipped };
+      });
+    }
+    case "loadout/toggleLock":
+      return mapActiveLoadout(s, (l) => ({
+        ...l,
+        locked: { ...l.locked, [action.slot]: !l.locked[action.slot] },
+      }));
+    case "loadout/add":
+      return mapActiveCharacter(s, (c) => ({
+        ...c,
+        loadouts: [...c.loadouts, action.loadout],
+        activeLoadoutId: action.loadout.id,
+      }));
+    case "loadout/select":
+      return mapActiveCharacter(s, (c) =>
+        c.loadouts.some((l) => l.id === action.loadoutId)
+          ? { ...c, activeLoadoutId: action.loadoutId }
+          : c
+      );
+    case "loadout/delete":
+      return mapActiveCharacter(s, (c) => {
+        const rest = c.loadouts.filter((l) => l.id !== action.loadoutId);
+        if (rest.length === 0 || rest.length === c.loadouts.length) return c;
+        const activeLoadoutId = rest.some((l) => l.id === c.activeLoadoutId)
+          ? c.activeLoadoutId
+          : rest[0].id;
+        return { ...c, loadouts: rest, activeLoadoutId };
+      });
+    case "character/add":
+      return {
+        ...s,
+        characters: [...s.characters, action.character],
+        activeCharacterId: action.character.id,
+      };
+    case "character/select":
+      return s.characters.some((c) => c.id === action.characterId)
+        ? { ...s, activeCharacterId: action.characterId }
+        : s;
+    case "character/rename":
+      return mapActiveCharacter(s, (c) => ({ ...c, name: action.name }));
+    case "character/delete": {
+      const rest = s.characters.filter((c) => c.id !== action.characterId);
+      if (rest.length === 0 || rest.length === s.characters.length) return s;
+      const activeCharacterId = rest.some((c) => c.id === s.activeCharacterId)
+        ? s.activeCharacterId
+        : rest[0].id;
+      return { ...s, characters: rest, activeCharacterId };
+    }
+    case "scoring/set":
+      return { ...s, scoring: action.scoring };
+    case "state/replace":
+      return action.state;
+  }
+}
+
+/** Short description of an action, shown as "Undo <label>". */
+export function actionLabel(action: PlannerAction): string {
+  switch (action.type) {
+    case "item/save":
+      return `save "${action.item.name}"`;
+    case "items/add":
+      return `add ${action.items.length} item(s)`;
+    case "item/delete":
+      return "delete item";
+    case "items/delete":
+      return `delete ${action.itemIds.length} item(s)`;
+    case "item/toggleExcluded":
+      return "exclude/include item";
+    case "loadout/update":
+      if (action.patch.equipped) return "equip build";
+      if (action.patch.targets) return "set targets";
+      if (action.patch.name !== undefined) return "rename loadout";
+      return "edit loadout";
+    case "loadout/equip":
+      return `equip ${action.slot}`;
+    case "loadout/toggleLock":
+      return `lock ${action.slot}`;
+    case "loadout/add":
+      return "add loadout";
+    case "loadout/select":
+      return "switch loadout";
+    case "loadout/delete":
+      return "delete loadout";
+    case "character/add":
+      return "add character";
+    case "character/select":
+      return "switch character";
+    case "character/rename":
+      return "rename character";
+    case "character/delete":
+      return "delete character";
+    case "scoring/set":
+      return "change scoring";
+    case "state/replace":
+      return action.label;
+  }
+}
+
+// Selection changes are navigation, not edits: they update the present
+// without adding an undo step.
+const UNRECORDED = new Set<PlannerAction["type"]>([
+  "loadout/select",
+  "character/select",
+]);
+
+// Consecutive actions with the same key collapse into one undo step; scoring
+// edits only when they change the same single field (dragging one slider).
+function mergeKeyOf(action: PlannerAction, s: PlannerData): string | null {
+  const c = activeCharacter(s);
+  switch (action.type) {
+    case "character/rename":
+      return `character/rename:${c.id}`;
+    case "loadout/update":
+      return Object.keys(action.patch).join() === "name"
+        ? `loadout/rename:${c.activeLoadoutId}`
+        : null;
+    case "scoring/set": {
+      const before = s.scoring as Record<string, unknown>;
+      const after = action.scoring as Record<string, unknown>;
+      const changed = Array.from(
+        new Set([...Object.keys(before), ...Object.keys(after)])
+      ).filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]));
+      return changed.length === 1 ? `scoring/set:${changed[0]}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// -----------------------------
+// History reducer
+// -----------------------------
+
+export function createHistory(present: PlannerData): PlannerHistory {
+  return { past: [], present, future: [], mergeKey: null };
+}
+
+export function historyReducer(
+  h: PlannerHistory,
+  action: HistoryAction
+): PlannerHistory {
+  switch (action.type) {
+    case "history/undo": {
+      const prev = h.past[h.past.length - 1];
+      if (!prev) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: prev.state,
+        future: [{ state: h.present, label: prev.label }, ...h.future],
+        mergeKey: null,
+      };
+    }
+    case "history/redo": {
+      const next = h.future[0];
+      if (!next) return h;
+      return {
+        past: [...h.past, { state: h.present, label: next.label }],
+        present: next.state,
+        future: h.future.slice(1),
+        mergeKey: null,
+      };
+    }
+    case "history/load":
+      return {
+        past: (action.past ?? []).slice(-HISTORY_LIMIT),
+        present: action.state,
+        future: (action.future ?? []).slice(0, HISTORY_LIMIT),
+        mergeKey: null,
+      };
+    default: {
+      const present = plannerReducer(h.present, action);
+      if (present === h.present) return h;
+      if (UNRECORDED.has(action.type)) return { ...h, present };
+      const mergeKey = mergeKeyOf(action, h.present);
+      if (mergeKey !== null && mergeKey === h.mergeKey) {
+        return { ...h, present, future: [], mergeKey };
+      }
+      return {
+        past: [
+          ...h.past,
+          { state: h.present, label: actionLabel(action) },
+        ].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        mergeKey,
+      };
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "@jest/globals";
+import { rankRerolls, rerollSearch, simulateReroll } from "./reroll";
+import { ROLL_RANGES, rollLine, rollQuality } from "./rollRanges";
+import { item } from "./testUtils";
+
+const line = (name: string, value: number) => ({
+  id: "l",
+  name,
+  value,
+  recommended: false,
+});
+
+describe("rollQuality", () => {
+  it("places a base value within its slot's range", () => {
+    expect(rollQuality("Weapon", line("Attack", 40))).toBe(0.5);
+    expect(rollQuality("Weapon", line("ATK", 60))).toBe(1);
+    expect(rollQuality("Helmet", line("Attack", 4))).toBe(0);
+    expect(rollQuality("Vest", line("Attack", 10))).toBeNull();
+    expect(rollQuality("Weapon", line("Unknown Buff", 10))).toBeNull();
+  });
+});
+
+describe("rollLine", () => {
+  it("rolls buffs of the slot within their ranges", () => {
+    let seed = 0;
+    const rand = () => (seed = (seed * 9301 + 49297) % 233280) / 233280;
+    for (let i = 0; i < 500; i++) {
+      const rolled = rollLine("Support", rand);
+      const range = ROLL_RANGES.Support.find((r) => r.buff === rolled.name);
+      expect(range).toBeDefined();
+      expect(rolled.value).toBeGreaterThanOrEqual(range!.min);
+      expect(rolled.value).toBeLessThanOrEqual(range!.max);
+    }
+  });
+});
+
+describe("simulateReroll", () => {
+  const weapon = item("weapon", "Weapon", [
+    ["Attack", 30],
+    ["Crit Rate", 2],
+  ]);
+  const helm = item("helm", "Helmet", [["Crit Rate", 1]]);
+  const targets = { "Crit Rate": { min: 7 } };
+
+  it("estimates the chance of meeting the targets and the score gain", () => {
+    const est = simulateReroll([weapon, helm], "weapon", "weapon.0", targets, {
+      samples: 6000,
+    })!;
+    expect(est.meetsNow).toBe(false);
+    // Crit Rate is 1 in 12 by weight and must roll 4+ of 2..6.
+    expect(est.pMeetsTargets).toBeGreaterThan(0);
+    expect(est.pMeetsTargets).toBeLessThan(0.05);
+    expect(est.pImproves).toBeCloseTo(1 / 12, 1);
+    expect(est.expectedGain).toBeGreaterThan(0);
+  });
+
+  it("is deterministic for a seed", () => {
+    const run = (seed: number) =>
+      simulateReroll([weapon, helm], "weapon", "weapon.1", targets, {
+        samples: 200,
+        seed,
+      });
+    expect(run(7)).toEqual(run(7));
+  });
+
+  it("returns null for an item or line outside the build", () => {
+    expect(simulateReroll([helm], "weapon", "weapon.0", targets)).toBeNull();
+    expect(simulateReroll([helm], "helm", "nope", targets)).toBeNull();
+  });
+
+  it("ranks the lines most likely to meet the targets first", () => {
+    const ranked = rankRerolls([weapon, helm], targets, { samples: 2000 });
+    expect(ranked).toHaveLength(3);
+    // Rerolling an existing Crit Rate line gives some of it up.
+    expect(ranked[0].line.id).toBe("weapon.0");
+    expect(ranked[0].pMeetsTargets).toBeGreaterThan(ranked[1].pMeetsTargets);
+  });
+
+  it("steps one line at a time to the same ranking", () => {
+    const opts = { samples: 300, seed: 3 };
+    const search = rerollSearch([weapon, helm], targets, opts);
+    const progress = [];
+    let step = search.next();
+    while (!step.done) {
+      progress.push(step.value);
+      step = search.next();
+    }
+    expect(progress).toEqual([1, 2, 3].map((done) => ({ done, total: 3 })));
+    expect(step.value).toEqual(rankRerolls([weapon, helm], targets, opts));
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  DEFAULT_SCORING,
+  ScoringConfig,
+  computeDeficits,
+  scoreBuild,
+} from "./engine";
+import { BuffLine, Item, Targets, normalizeBuffName } from "./model";
+import { rollLine } from "./rollRanges";
+
+/**
+ * Reroll (tuning) simulator: how a build fares if one line of one of its
+ * items is rerolled, estimated by Monte Carlo over the slot type's roll
+ * ranges. Runs locally and is seeded, so the same inputs give the same
+ * estimate.
+ */
+
+export type RerollEstimate = {
+  item: Item;
+  line: BuffLine;
+  samples: number;
+  meetsNow: boolean; // every target met before the reroll
+  pMeetsTargets: number; // share of rerolls after which every target is met
+  pImproves: number; // share of rerolls that raise the score
+  expectedGain: number; // mean scoreBuild change over all rerolls
+};
+
+export type RerollProgress = {
+  done: number; // lines simulated so far
+  total: number;
+};
+
+/** A running rankRerolls; each `yield` follows one simulated line. */
+export type RerollSearch = Generator<RerollProgress, RerollEstimate[], void>;
+
+export type RerollOptions = {
+  samples?: number; // rerolls per line
+  seed?: number;
+  scoring?: ScoringConfig;
+};
+
+// Small deterministic PRNG (mulberry32).
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Estimate for rerolling lineId on itemId, which must be in the build.
+ * A rerolled line keeps its ★ only if it rolls the same buff again.
+ */
+export function simulateReroll(
+  build: Item[],
+  itemId: string,
+  lineId: string,
+  targets: Targets,
+  opts?: RerollOptions
+): RerollEstimate | null {
+  const item = build.find((it) => it.id === itemId);
+  const line = item?.buffs.find((b) => b.id === lineId);
+  if (!item || !line) return null;
+  const samples = Math.max(1, Math.round(opts?.samples ?? 2000));
+  const scoring = opts?.scoring ?? DEFAULT_SCORING;
+  const rand = rng(opts?.seed ?? 1);
+
+  const rest = build.filter((it) => it !== item);
+  const base = scoreBuild(build, targets, scoring);
+  const lineName = normalizeBuffName(line.name);
+  let meets = 0;
+  let improves = 0;
+  let gain = 0;
+  for (let i = 0; i < samples; i++) {
+    const rolled = rollLine(item.slot, rand);
+    const rerolled: Item = {
+      ...item,
+      buffs: item.buffs.map((b) =>
+        b === line
+          ? {
+              ...b,
+              ...rolled,
+              recommended: b.recommended && rolled.name === lineName,
+            }
+          : b
+      ),
+    };
+    const s = scoreBuild([...rest, rerolled], targets, scoring);
+    if (computeDeficits(s.totals, targets).totalMissing === 0) meets += 1;
+    if (s.score > base.score) improves += 1;
+    gain += s.score - base.score;
+  }
+  return {
+    item,
+    line,
+    samples,
+    meetsNow: computeDeficits(base.totals, targets).totalMissing === 0,
+    pMeetsTargets: meets / samples,
+    pImproves: improves / samples,
+    expectedGain: gain / samples,
+  };
+}
+
+/**
+ * Every line of every item in the build, most worth tuning first: by chance
+ * of meeting all targets, then by expected score gain.
+ */
+export function rankRerolls(
+  build: Item[],
+  targets: Targets,
+  opts?: RerollOptions
+): RerollEstimate[] {
+  const search = rerollSearch(build, targets, opts);
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+}
+
+/**
+ * rankRerolls one line at a time, so callers can step it in time slices and
+ * keep the page responsive (or drop it part way).
+ */
+export function* rerollSearch(
+  build: Item[],
+  targets: Targets,
+  opts?: RerollOptions
+): RerollSearch {
+  const lines = build.flatMap((it) => it.buffs.map((b) => ({ it, b })));
+  const out: RerollEstimate[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const { it, b } = lines[i];
+    const est = simulateReroll(build, it.id, b.id, targets, opts);
+    if (est) out.push(est);
+    yield { done: i + 1, total: lines.length };
+  }
+  return out.sort(
+    (a, b) =>
+      b.pMeetsTargets - a.pMeetsTargets || b.expectedGain - a.expectedGain
+  );
+}
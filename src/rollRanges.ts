@@ -0,0 +1,126 @@
+import { canonicalBuffName, lookupBuff } from "./buffCatalog";
+import type { BuffLine, SlotType } from "./model";
+
+/**
+ * Roll ranges: the base values each buff can roll on each slot type, and how
+ * likely a reroll (tuning) is to land on it. Values are base values, before
+ * rarity, level and rank scaling (see scaling.ts).
+ */
+
+export type RollRange = {
+  buff: string; // canonical buff name
+  min: number;
+  max: number;
+  weight?: number; // relative odds of this buff on a reroll; default 1
+};
+
+const r = (
+  buff: string,
+  min: number,
+  max: number,
+  weight?: number
+): RollRange =>
+  weight === undefined ? { buff, min, max } : { buff, min, max, weight };
+
+export const ROLL_RANGES: Record<SlotType, RollRange[]> = {
+  Weapon: [
+    r("Attack", 20, 60, 3),
+    r("Elemental Attack", 15, 45, 2),
+    r("Crit Rate", 2, 6),
+    r("Crit Damage", 4, 12),
+    r("Precision", 2, 6),
+    r("Armor Penetration", 10, 30),
+    r("Damage Bonus", 2, 6),
+    r("Boss Damage", 2, 8),
+    r("Momentum", 2, 8),
+  ],
+  Support: [
+    r("Attack", 10, 30, 2),
+    r("Elemental Attack", 10, 30, 2),
+    r("Crit Rate", 1.5, 4.5),
+    r("Crit Damage", 3, 9),
+    r("Affinity Rate", 1.5, 4.5),
+    r("Affinity Damage", 3, 9),
+    r("Momentum", 2, 6),
+    r("Healing Bonus", 2, 6),
+  ],
+  Helmet: [
+    r("HP", 200, 600, 3),
+    r("Defense", 15, 45, 2),
+    r("Attack", 8, 24),
+    r("Crit Rate", 1, 3),
+    r("Precision", 1, 4),
+    r("Affinity Rate", 1, 3),
+  ],
+  Vest: [
+    r("HP", 300, 900, 3),
+    r("Defense", 20, 60, 3),
+    r("Crit Damage", 2, 6),
+    r("Damage Bonus", 1, 3),
+    r("Healing Bonus", 1.5, 4.5),
+  ],
+  Arms: [
+    r("Attack", 10, 30, 2),
+    r("Crit Rate", 1, 3),
+    r("Crit Damage", 2, 6),
+    r("Precision", 1, 4),
+    r("Armor Penetration", 6, 18),
+    r("Affinity Damage", 2, 6),
+  ],
+  Legs: [
+    r("HP", 200, 600, 2),
+    r("Defense", 15, 45, 2),
+    r("Elemental Attack", 8, 24),
+    r("Affinity Rate", 1, 3),
+    r("Boss Damage", 1, 4),
+    r("Momentum", 1, 4),
+  ],
+};
+
+/** Range of a buff on a slot type, if it can roll there. */
+export function rollRange(slot: SlotType, buff: string): RollRange | null {
+  const name = canonicalBuffName(buff);
+  return ROLL_RANGES[slot].find((x) => x.buff === name) ?? null;
+}
+
+/**
+ * Where a line's base value sits in its range, 0 (min roll) to 1 (max roll);
+ * null when the buff has no range on that slot type.
+ */
+export function rollQuality(slot: SlotType, line: BuffLine): number | null {
+  const range = rollRange(slot, line.name);
+  if (!range) return null;
+  if (range.max <= range.min) return 1;
+  const value = Number(line.value) || 0;
+  const q = (value - range.min) / (range.max - range.min);
+  return Math.min(Math.max(q, 0), 1);
+}
+
+/**
+ * One random reroll on a slot type: a buff picked by weight, then a value
+ * uniform over its range (whole numbers for flat buffs, one decimal for
+ * percentages). rand returns numbers in [0, 1).
+ */
+export function rollLine(
+  slot: SlotType,
+  rand: () => number
+): { name: string; value: number } {
+  const pool = ROLL_RANGES[slot];
+  const total = pool.reduce((sum, x) => sum + (x.weight ?? 1), 0);
+  let pick = rand() * total;
+  let range = pool[pool.length - 1];
+  for (const x of pool) {
+    pick -= x.weight ?? 1;
+    if (pick < 0) {
+      range = x;
+      break;
+    }
+  }
+  const raw = range.min + rand() * (range.max - range.min);
+  const places = lookupBuff(range.buff)?.unit === "percent" ? 10 : 1;
+  const value = Math.min(
+    Math.max(Math.round(raw * places) / places, range.min),
+    range.max
+  );
+  return { name: range.buff, value };
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "@jest/globals";
+import { DEFAULT_SCORING, sanitizeScoring } from "./engine";
+import { Character, Targets, emptyEquipped } from "./model";
+import {
+  findDominated,
+  salvageCandidates,
+  salvageSearch,
+  savedTargetSets,
+} from "./salvage";
+import { item } from "./testUtils";
+
+function character(targets: Targets[], equipped: string[] = []): Character {
+  return {
+    id: "c1",
+    name: "Main",
+    activeLoadoutId: "l0",
+    loadouts: targets.map((t, i) => ({
+      id: `l${i}`,
+      name: `Loadout ${i}`,
+      equipped:
+        i === 0
+          ? {
+              ...emptyEquipped(),
+              ...Object.fromEntries(
+                equipped.map((id) => [id.split(":")[0], id])
+              ),
+            }
+          : emptyEquipped(),
+      locked: {},
+      targets: t,
+    })),
+  };
+}
+
+describe("savedTargetSets", () => {
+  it("dedupes target sets regardless of key order and skips empty ones", () => {
+    const a = { Attack: { min: 10 }, "Crit Rate": { min: 5 } };
+    const b = { "Crit Rate": { min: 5 }, Attack: { min: 10 } };
+    expect(savedTargetSets([character([a, b, {}])])).toEqual([a]);
+  });
+});
+
+describe("findDominated", () => {
+  const buffs = ["Attack", "Crit Rate"];
+
+  it("flags items beaten or matched on every targeted buff and ★ line", () => {
+    const strong = item("strong", "Helmet", [
+      ["Attack", 20],
+      ["Crit Rate", 5, true],
+    ]);
+    const weak = item("weak", "Helmet", [
+      ["ATK", 10],
+      ["Crit Rate", 5, true],
+      ["Precision", 50], // not targeted
+    ]);
+    const fewerStars = item("fewerStars", "Helmet", [
+      ["Attack", 30],
+      ["Crit Rate", 5],
+    ]);
+    const otherSlot = item("otherSlot", "Vest", [["Attack", 1]]);
+    const dominated = findDominated(
+      [strong, weak, fewerStars, otherSlot],
+      buffs
+    );
+    expect(dominated.get("weak")?.id).toBe("strong");
+    expect(dominated.has("strong")).toBe(false);
+    expect(dominated.has("fewerStars")).toBe(false);
+    expect(dominated.has("otherSlot")).toBe(false);
+  });
+
+  it("keeps the first of identical items", () => {
+    const a = item("a", "Arms", [["Attack", 10]]);
+    const b = item("b", "Arms", [["Attack", 10]]);
+    const c = item("c", "Arms", [["Attack", 10]]);
+    const dominated = findDominated([a, b, c], buffs);
+    expect(Array.from(dominated.keys()).sort()).toEqual(["b", "c"]);
+  });
+
+  it("does not let excluded items dominate", () => {
+    const best = item("best", "Legs", [["Attack", 50]], { excluded: true });
+    const kept = item("kept", "Legs", [["Attack", 10]]);
+    expect(findDominated([best, kept], buffs).size).toBe(0);
+  });
+
+  it("needs two dominating items for a paired slot type", () => {
+    const strong = item("strong", "Support", [["Attack", 20]]);
+    const mid = item("mid", "Support", [["Attack", 10]]);
+    const weak = item("weak", "Support", [["Attack", 5]]);
+    const dominated = findDominated([strong, mid, weak], buffs);
+    expect(Array.from(dominated.keys())).toEqual(["weak"]);
+    expect(dominated.get("weak")?.id).toBe("strong");
+  });
+
+  it("only lets a piece of the same set dominate a set piece", () => {
+    const plain = item("plain", "Vest", [["Attack", 50]]);
+    const pine = {
+      ...item("pine", "Vest", [["Attack", 10]]),
+      set: "iron_pine",
+    };
+    const pine2 = {
+      ...item("pine2", "Vest", [["Attack", 5]]),
+      set: "iron_pine",
+    };
+    const dominated = findDominated([plain, pine, pine2], buffs);
+    expect(dominated.has("pine")).toBe(false);
+    expect(dominated.get("pine2")?.id).toBe("pine");
+  });
+});
+
+describe("salvageCandidates", () => {
+  const targets = { Attack: { min: 30 } };
+  const w1 = item("Weapon 1:a", "Weapon", [["Attack", 20]]);
+  const w1weak = item("Weapon 1:b", "Weapon", [["Attack", 5]]);
+  const w1crit = item("Weapon 1:c", "Weapon", [["Crit Rate", 40]]);
+  const helm = item("Helmet:a", "Helmet", [["Attack", 10]]);
+  const helmWeak = item("Helmet:b", "Helmet", [["Attack", 5]]);
+
+  it("suggests nothing without saved targets", () => {
+    expect(salvageCandidates([w1, w1weak, helm], [character([{}])])).toEqual(
+      []
+    );
+  });
+
+  it("gives each candidate its reasons and spares equipped items", () => {
+    const found = salvageCandidates(
+      [w1, w1weak, w1crit, helm],
+      [character([targets], ["Weapon 1:b"])],
+      { topN: 1 }
+    );
+    // The crit weapon is beaten on Attack by both other weapons (Crit Rate
+    // is not targeted), so it is dominated; the weak one is equipped anyway.
+    expect(found.map((c) => c.item.id)).toEqual(["Weapon 1:c"]);
+    expect(found[0].reasons).toEqual([
+      { kind: "dominated", by: w1 },
+      { kind: "unused", targetSets: 1, topN: 1 },
+    ]);
+
+    const unequipped = salvageCandidates(
+      [w1, w1weak, w1crit, helm, helmWeak],
+      [character([targets])],
+      { topN: 1 }
+    );
+    // Two weapons are equipped at once, so the weak one is still useful.
+    expect(unequipped.map((c) => c.item.id)).toEqual([
+      "Weapon 1:c",
+      "Helmet:b",
+    ]);
+    expect(unequipped[1].reasons).toEqual([
+      { kind: "dominated", by: helm },
+      { kind: "unused", targetSets: 1, topN: 1 },
+    ]);
+  });
+
+  it("never suggests excluded items", () => {
+    const reserved = item("Weapon 1:x", "Weapon", [["Attack", 1]], {
+      excluded: true,
+    });
+    const found = salvageCandidates(
+      [w1, w1weak, reserved, helm],
+      [character([targets])],
+      { topN: 1 }
+    );
+    expect(found.map((c) => c.item.id)).not.toContain("Weapon 1:x");
+  });
+
+  it("compares items on the buffs behind derived-stat targets", () => {
+    const scoring = sanitizeScoring({
+      ...DEFAULT_SCORING,
+      derived: [{ name: "effective_dmg", expr: "Attack * (1 + CritRate/100)" }],
+    });
+    const dominatedIn = (targets: Targets, objective?: string) =>
+      salvageCandidates([helmWeak, helm, w1], [character([targets])], {
+        topN: 1,
+        scoring: objective
+          ? { ...scoring, objective: { stat: objective, weight: 1 } }
+          : scoring,
+      })
+        .filter((c) => c.reasons.some((r) => r.kind === "dominated"))
+        .map((c) => c.item.id);
+    // Compared on Attack and Crit Rate, not on the derived name (which every
+    // item lacks, so the first-listed helmet would be kept).
+    expect(dominatedIn({ effective_dmg: { min: 50 } })).toEqual(["Helmet:b"]);
+    expect(dominatedIn({ Defense: { min: 1 } }, "effective_dmg")).toEqual([
+      "Helmet:b",
+    ]);
+  });
+
+  it("steps through the target sets to the same result", () => {
+    const inventory = [w1, w1weak, w1crit, helm, helmWeak];
+    const characters = [character([targets, { "Crit Rate": { min: 30 } }])];
+    const search = salvageSearch(inventory, characters, { topN: 1 });
+    const progress = [];
+    let step = search.next();
+    while (!step.done) {
+      progress.push(step.value);
+      step = search.next();
+    }
+    expect(progress).toContainEqual({ done: 1, total: 2 });
+    expect(progress[progress.length - 1]).toEqual({ done: 2, total: 2 });
+    expect(step.value).toEqual(
+      salvageCandidates(inventory, characters, { topN: 1 })
+    );
+  });
+
+  it("keeps items used by any saved target set", () => {
+    const found = salvageCandidates(
+      [w1, w1crit, helm],
+      [character([targets, { "Crit Rate": { min: 30 } }])],
+      { topN: 1 }
+    );
+    expect(found).toEqual([]);
+  });
+});
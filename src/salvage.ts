@@ -0,0 +1,230 @@
+import { DEFAULT_SCORING, ScoringConfig, optimizeSearch } from "./engine";
+import { formulasOf } from "./formulas";
+import {
+  Character,
+  Item,
+  SLOTS,
+  SLOT_GROUPS,
+  SLOT_TYPES,
+  Targets,
+  normalizeBuffName,
+} from "./model";
+import { ScalingTable, effectiveValue } from "./scaling";
+
+/**
+ * Salvage analysis: inventory items that are safe to throw away.
+ * - dominated: other items of the same slot type, one per slot of that type,
+ *   are each at least as good on every targeted buff (across all saved
+ *   loadouts; a targeted or maximized derived stat stands for the buffs its
+ *   formulas read) and on ★ recommended lines, and belong to the same gear
+ *   set (if the item has one)
+ * - unused: the item is in none of the top-N builds for any saved target set
+ * Items equipped in any loadout are never suggested, nor are excluded items:
+ * the optimizer never picks them, so they would always look unused, and they
+ * are usually reserved for another character.
+ */
+
+export type SalvageReason =
+  | { kind: "dominated"; by: Item }
+  | { kind: "unused"; targetSets: number; topN: number };
+
+export type SalvageCandidate = {
+  item: Item;
+  reasons: SalvageReason[];
+};
+
+export type SalvageProgress = {
+  done: number; // saved target sets searched so far
+  total: number;
+};
+
+/**
+ * A running salvageCandidates; yields during and after each target set's
+ * optimizer search.
+ */
+export type SalvageSearch = Generator<
+  SalvageProgress,
+  SalvageCandidate[],
+  void
+>;
+
+export type SalvageOptions = {
+  topN?: number; // builds kept per target set
+  topKPerSlot?: number;
+  beamWidth?: number;
+  scoring?: ScoringConfig;
+};
+
+// -----------------------------
+// Target sets
+// -----------------------------
+
+/** Distinct non-empty target sets over every loadout of every character. */
+export function savedTargetSets(characters: Character[]): Targets[] {
+  const seen = new Map<string, Targets>();
+  for (const c of characters) {
+    for (const l of c.loadouts) {
+      if (Object.keys(l.targets).length === 0) continue;
+      const key = JSON.stringify(
+        Object.entries(l.targets).sort((a, b) => a[0].localeCompare(b[0]))
+      );
+      if (!seen.has(key)) seen.set(key, l.targets);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+// -----------------------------
+// Dominance
+// -----------------------------
+
+function profile(item: Item, buffs: string[], scaling?: ScalingTable) {
+  const totals: Record<string, number> = {};
+  for (const b of item.buffs) {
+    const key = normalizeBuffName(b.name);
+    totals[key] = (totals[key] ?? 0) + effectiveValue(item, b, scaling);
+  }
+  return {
+    values: buffs.map((name) => totals[name] ?? 0),
+    recommended: item.buffs.filter((b) => b.recommended).length,
+  };
+}
+
+/**
+ * Dominated item id -> an item that dominates it. Paired types (two slots)
+ * need two dominating items, since both can be equipped at once. Excluded
+ * items never dominate. Of identical items the ones listed first are kept,
+ * so a group of duplicates always leaves one survivor per slot.
+ */
+export function findDominated(
+  items: Item[],
+  targetedBuffs: string[],
+  scaling?: ScalingTable
+): Map<string, Item> {
+  const out = new Map<string, Item>();
+  for (const type of SLOT_TYPES) {
+    const group = items
+      .map((item, index) => ({
+        item,
+        index,
+        ...profile(item, targetedBuffs, scaling),
+      }))
+      .filter((x) => x.item.slot === type);
+    const needed = SLOT_GROUPS[type].length;
+    for (const a of group) {
+      const dominators = group.filter((b) => {
+        if (b === a || b.item.excluded) return false;
+        // A set piece may be needed for its bonus.
+        if (a.item.set && b.item.set !== a.item.set) return false;
+        let better = b.recommended > a.recommended;
+        if (b.recommended < a.recommended) return false;
+        for (let i = 0; i < a.values.length; i++) {
+          if (b.values[i] < a.values[i]) return false;
+          if (b.values[i] > a.values[i]) better = true;
+        }
+        return better || b.index < a.index;
+      });
+      if (dominators.length >= needed) out.set(a.item.id, dominators[0].item);
+    }
+  }
+  return out;
+}
+
+/**
+ * Buffs to compare items on: every targeted buff and the objective, with the
+ * buffs the derived stats read in place of derived stats (which are on no
+ * item).
+ */
+function targetedBuffsOf(targetSets: Targets[], scoring: ScoringConfig) {
+  const names = new Set(
+    targetSets.flatMap((t) => Object.keys(t).map((k) => normalizeBuffName(k)))
+  );
+  if (scoring.objective) names.add(normalizeBuffName(scoring.objective.stat));
+  const formulas = formulasOf(scoring.derived);
+  const derived = new Set(formulas?.names ?? []);
+  if (formulas && Array.from(names).some((n) => derived.has(n))) {
+    formulas.inputs.forEach((k) => names.add(k));
+  }
+  return Array.from(names)
+    .filter((n) => n && !derived.has(n))
+    .sort();
+}
+
+// -----------------------------
+// Analysis
+// -----------------------------
+
+/** Items for salvage, each with why; in inventory order. */
+export function salvageCandidates(
+  items: Item[],
+  characters: Character[],
+  opts?: SalvageOptions
+): SalvageCandidate[] {
+  const search = salvageSearch(items, characters, opts);
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+}
+
+/**
+ * salvageCandidates in steps (one optimizer search per saved target set), so
+ * callers can run it in time slices and drop it part way.
+ */
+export function* salvageSearch(
+  items: Item[],
+  characters: Character[],
+  opts?: SalvageOptions
+): SalvageSearch {
+  const topN = opts?.topN ?? 5;
+  const scoring = opts?.scoring ?? DEFAULT_SCORING;
+  const targetSets = savedTargetSets(characters);
+  const targetedBuffs = targetedBuffsOf(targetSets, scoring);
+
+  const equipped = new Set<string>();
+  for (const c of characters) {
+    for (const l of c.loadouts) {
+      for (const slot of SLOTS) {
+        const id = l.equipped[slot];
+        if (id) equipped.add(id);
+      }
+    }
+  }
+
+  // Without saved targets there is nothing to compare items on, so nothing
+  // is suggested.
+  const dominated =
+    targetedBuffs.length > 0
+      ? findDominated(items, targetedBuffs, scoring.scaling)
+      : new Map<string, Item>();
+  const used = new Set<string>();
+  for (const [i, targets] of targetSets.entries()) {
+    const search = optimizeSearch(items, targets, {
+      topN,
+      topKPerSlot: opts?.topKPerSlot,
+      beamWidth: opts?.beamWidth,
+      scoring,
+    });
+    let step = search.next();
+    while (!step.done) {
+      yield { done: i, total: targetSets.length };
+      step = search.next(false);
+    }
+    for (const b of step.value.builds) {
+      for (const it of b.items) used.add(it.id);
+    }
+    yield { done: i + 1, total: targetSets.length };
+  }
+
+  const out: SalvageCandidate[] = [];
+  for (const item of items) {
+    if (equipped.has(item.id) || item.excluded) continue;
+    const reasons: SalvageReason[] = [];
+    const by = dominated.get(item.id);
+    if (by) reasons.push({ kind: "dominated", by });
+    if (targetSets.length > 0 && !used.has(item.id)) {
+      reasons.push({ kind: "unused", targetSets: targetSets.length, topN });
+    }
+    if (reasons.length > 0) out.push({ item, reasons });
+  }
+  return out;
+}
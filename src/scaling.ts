@@ -0,0 +1,118 @@
+import type { BuffLine, Item, Rarity } from "./model";
+
+/**
+ * Effective buff values. Items store base values; rarity, item level and
+ * tuning rank each multiply them, as set out in a scaling table. The table is
+ * user-editable and kept with the scoring settings (ScoringConfig.scaling);
+ * DEFAULT_SCALING applies when none is set. Items without those attributes
+ * keep their values as entered.
+ *
+ *   effective = base × rarity × (1 + levelStep × (level − 1))
+ *                    × (1 + rankStep × rank)
+ */
+
+export type ScalingTable = {
+  rarity: Record<Rarity, number>; // multiplier per rarity
+  levelStep: number; // fraction of base gained per level above 1
+  rankStep: number; // fraction of base gained per tuning rank
+};
+
+export const DEFAULT_SCALING: ScalingTable = {
+  rarity: {
+    common: 1,
+    uncommon: 1.1,
+    rare: 1.25,
+    epic: 1.45,
+    legendary: 1.7,
+  },
+  levelStep: 0.02,
+  rankStep: 0.05,
+};
+
+// Game limits on the attributes themselves; not part of the table.
+export const MAX_LEVEL = 80;
+export const MAX_RANK = 10;
+
+// Largest multiplier or step a table may hold.
+const MAX_MULTIPLIER = 100;
+
+export const RARITIES: { id: Rarity; name: string }[] = [
+  { id: "common", name: "Common" },
+  { id: "uncommon", name: "Uncommon" },
+  { id: "rare", name: "Rare" },
+  { id: "epic", name: "Epic" },
+  { id: "legendary", name: "Legendary" },
+];
+
+/**
+ * A usable table from stored data: anything missing or out of range
+ * (negative, not a number, above MAX_MULTIPLIER) falls back to the default.
+ */
+export function sanitizeScaling(raw: unknown): ScalingTable {
+  const obj = (v: unknown) =>
+    typeof v === "object" && v !== null ? (v as Record<string, unknown>) : {};
+  const num = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= MAX_MULTIPLIER
+      ? v
+      : fallback;
+  const table = obj(raw);
+  const rarity = obj(table.rarity);
+  return {
+    rarity: Object.fromEntries(
+      RARITIES.map((r) => [
+        r.id,
+        num(rarity[r.id], DEFAULT_SCALING.rarity[r.id]),
+      ])
+    ) as Record<Rarity, number>,
+    levelStep: num(table.levelStep, DEFAULT_SCALING.levelStep),
+    rankStep: num(table.rankStep, DEFAULT_SCALING.rankStep),
+  };
+}
+
+/** Whether two tables scale every item the same way. */
+export function sameScaling(a: ScalingTable, b: ScalingTable) {
+  return (
+    a.levelStep === b.levelStep &&
+    a.rankStep === b.rankStep &&
+    RARITIES.every((r) => a.rarity[r.id] === b.rarity[r.id])
+  );
+}
+
+/** Multiplier from base to effective values. */
+export function scaleFactor(
+  item: Pick<Item, "rarity" | "level" | "rank">,
+  table: ScalingTable = DEFAULT_SCALING
+) {
+  const rarity = item.rarity ? table.rarity[item.rarity] : 1;
+  const level = Math.min(Math.max(item.level ?? 1, 1), MAX_LEVEL);
+  const rank = Math.min(Math.max(item.rank ?? 0, 0), MAX_RANK);
+  return (
+    rarity * (1 + table.levelStep * (level - 1)) * (1 + table.rankStep * rank)
+  );
+}
+
+/** Effective value of one of the item's lines, to two decimals. */
+export function effectiveValue(
+  item: Item,
+  line: BuffLine,
+  table: ScalingTable = DEFAULT_SCALING
+) {
+  const base = Number(line.value) || 0;
+  return Math.round(base * scaleFactor(item, table) * 100) / 100;
+}
+
+/** The item as it would be at another tuning rank (clamped to MAX_RANK). */
+export function atRank(item: Item, rank: number) {
+  return { ...item, rank: Math.min(Math.max(Math.round(rank), 0), MAX_RANK) };
+}
+
+/** "Epic · Lv 40 · R3"; empty for items without scaling attributes. */
+export function scalingLabel(item: Item) {
+  const parts: string[] = [];
+  if (item.rarity) {
+    parts.push(RARITIES.find((r) => r.id === item.rarity)?.name ?? item.rarity);
+  }
+  if (item.level !== undefined) parts.push(`Lv ${item.level}`);
+  if (item.rank !== undefined) parts.push(`R${item.rank}`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+// jsdom here has no TextEncoder; Node provides it along with btoa/atob.
+import { describe, expect, it } from "@jest/globals";
+import { computeDeficits, totalsOf, withDerived } from "./engine";
+import { MAX_EXPR_LENGTH } from "./formulas";
+import { Item } from "./model";
+import { DEFAULT_SCALING } from "./scaling";
+import {
+  MAX_SHARE_LENGTH,
+  SharedBuild,
+  decodeSharedBuild,
+  encodeSharedBuild,
+  sharePayloadFromHash,
+  shareUrl,
+} from "./shareLink";
+
+const build: SharedBuild = {
+  name: "Glass cannon ✦",
+  items: [
+    {
+      id: "w",
+      name: "Jade Sword",
+      slot: "Weapon",
+      set: "jade_ward",
+      rarity: "epic",
+      level: 40,
+      rank: 3,
+      buffs: [
+        { id: "w.0", name: "Attack", value: 120, recommended: true },
+        { id: "w.1", name: "Sword Mastery", value: 2.5, recommended: false },
+      ],
+    },
+    {
+      id: "h",
+      name: "Cap",
+      slot: "Helmet",
+      buffs: [{ id: "h.0", name: "Crit Rate", value: 3, recommended: false }],
+    },
+  ],
+  targets: {
+    Attack: { min: 100 },
+    "Crit Rate": { min: 10, max: 50 },
+    "Sword Mastery": { min: 0, weight: 2 },
+  },
+};
+
+// Ids are not part of the link.
+const withoutIds = (items: Item[]) =>
+  items.map(({ id, buffs, ...rest }) => ({
+    ...rest,
+    buffs: buffs.map(({ id, ...b }) => b),
+  }));
+
+// Plain base64 is also accepted; the test payloads are ASCII.
+const encode = (data: unknown) => btoa(JSON.stringify(data));
+
+describe("shared build links", () => {
+  it("round-trip a build through the URL fragment", () => {
+    const url = shareUrl(build, "https://example.test/app#old");
+    expect(url.startsWith("https://example.test/app#build=")).toBe(true);
+    const payload = sharePayloadFromHash(new URL(url).hash)!;
+    const decoded = decodeSharedBuild(payload);
+    expect(decoded.name).toBe(build.name);
+    expect(decoded.targets).toEqual(build.targets);
+    expect(withoutIds(decoded.items)).toEqual(withoutIds(build.items));
+  });
+
+  it("carry the sharer's scaling table when it is not the default", () => {
+    const scaling = { ...DEFAULT_SCALING, rankStep: 0.1 };
+    const decoded = decodeSharedBuild(encodeSharedBuild({ ...build, scaling }));
+    expect(decoded.scaling).toEqual(scaling);
+    const plain = encodeSharedBuild({ ...build, scaling: DEFAULT_SCALING });
+    expect(plain).toBe(encodeSharedBuild(build));
+    expect(decodeSharedBuild(plain).scaling).toBeUndefined();
+    expect(() => decodeSharedBuild(encode([1, "x", [], [], 5]))).toThrow(
+      /malformed scaling/
+    );
+  });
+
+  it("carry the sharer's derived stats so derived targets are met", () => {
+    const derived = [
+      { name: "Power", expr: "Attack * (1 + [Crit Rate] / 100)" },
+    ];
+    const shared = { ...build, targets: { Power: { min: 100 } }, derived };
+    const decoded = decodeSharedBuild(encodeSharedBuild(shared));
+    expect(decoded.derived).toEqual(derived);
+    expect(decoded.scaling).toBeUndefined();
+    const totals = withDerived(totalsOf(decoded.items), decoded.derived);
+    expect(totals.Power).toBeGreaterThan(100);
+    expect(computeDeficits(totals, decoded.targets).totalMissing).toBe(0);
+
+    const scaling = { ...DEFAULT_SCALING, rankStep: 0.1 };
+    const both = decodeSharedBuild(encodeSharedBuild({ ...shared, scaling }));
+    expect([both.scaling, both.derived]).toEqual([scaling, derived]);
+    expect(decodeSharedBuild(encodeSharedBuild(build)).derived).toBeUndefined();
+  });
+
+  it("reject malformed or oversized derived stats", () => {
+    for (const derived of [
+      {},
+      [["Power"]],
+      [["Power", "x".repeat(MAX_EXPR_LENGTH + 1)]],
+    ]) {
+      expect(() =>
+        decodeSharedBuild(encode([1, "x", [], [], null, derived]))
+      ).toThrow(/malformed derived stat/);
+    }
+  });
+
+  it("ignore hashes without a build", () => {
+    expect(sharePayloadFromHash("#other=1")).toBeNull();
+  });
+
+  it("reject damaged, foreign and malformed payloads", () => {
+    const payload = encodeSharedBuild(build);
+    expect(() => decodeSharedBuild(payload.slice(0, -10))).toThrow(
+      /damaged or incomplete/
+    );
+    expect(() => decodeSharedBuild("!!!")).toThrow(/damaged or incomplete/);
+    expect(() => decodeSharedBuild(encode([2, "x", [], []]))).toThrow(
+      /unsupported version/
+    );
+    expect(() => decodeSharedBuild(encode({ items: [] }))).toThrow(
+      /unsupported version/
+    );
+    expect(() => decodeSharedBuild(encode([1, "x", null, []]))).toThrow(
+      /damaged or incomplete/
+    );
+    expect(() =>
+      decodeSharedBuild(encode([1, "x", [[99, "Cap", []]], []]))
+    ).toThrow(/malformed item/);
+    expect(() =>
+      decodeSharedBuild(
+        encode([
+          1,
+          "x",
+          [
+            [4, "Cap", []],
+            [4, "Hat", []],
+          ],
+          [],
+        ])
+      )
+    ).toThrow(/malformed item/);
+    expect(() =>
+      decodeSharedBuild(encode([1, "x", [[4, "Cap", [[0, "lots"]]]], []]))
+    ).toThrow(/malformed buff line/);
+    expect(() => decodeSharedBuild(encode([1, "x", [], [[0]]]))).toThrow(
+      /malformed target/
+    );
+  });
+
+  it("drop scaling values outside the table", () => {
+    const decoded = decodeSharedBuild(
+      encode([1, "", [[4, "Cap", [], null, ["mythic", 0, 2]]], []])
+    );
+    expect(decoded.name).toBe("Shared build");
+    const [cap] = decoded.items;
+    expect([cap.rarity, cap.level, cap.rank]).toEqual([
+      undefined,
+      undefined,
+      2,
+    ]);
+  });
+
+  it("refuse oversized payloads before decoding them", () => {
+    const huge = encode([1, "x".repeat(MAX_SHARE_LENGTH), [], []]);
+    expect(() => decodeSharedBuild(huge)).toThrow(/too long/);
+  });
+});
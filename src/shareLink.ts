@@ -0,0 +1,264 @@
+import { BUFF_CATALOG } from "./buffCatalog";
+import { DerivedStatDef, MAX_EXPR_LENGTH } from "./formulas";
+import {
+  BuffLine,
+  Item,
+  Rarity,
+  SLOTS,
+  TargetSpec,
+  Targets,
+  normalizeBuffName,
+  placeItems,
+  slotTypeOf,
+  uid,
+} from "./model";
+import {
+  DEFAULT_SCALING,
+  MAX_LEVEL,
+  MAX_RANK,
+  RARITIES,
+  ScalingTable,
+  sameScaling,
+  sanitizeScaling,
+} from "./scaling";
+
+/**
+ * Shareable build links.
+ * A build (equipped items with their buff lines, plus targets) is packed into
+ * the URL fragment, which browsers never send to a server, so links work
+ * offline and from a static file.
+ *
+ * Payload: base64url(JSON([version, name, items, targets, scaling?, derived?]))
+ * where
+ *   items   = [slotIndex, itemName, [[buff, value, recommended 0|1], ...],
+ *              setId | null, [rarity | null, level | null, rank | null]?][]
+ *   targets = [buff, min, max?, weight?][]
+ *   scaling = [[multiplier per rarity, in RARITIES order], levelStep,
+ *              rankStep], only when the sharer's table is not the default
+ *              (null when derived follows)
+ *   derived = [name, expression][], the sharer's derived stats, if any
+ * buff is an index into BUFF_CATALOG, or the name for unknown buffs, and
+ * slotIndex is the slot the item is equipped in (its type follows from it).
+ */
+
+export const SHARE_PARAM = "build";
+
+const SHARE_VERSION = 1;
+
+/** Longest payload decoded; a full build is a few kilobytes at most. */
+export const MAX_SHARE_LENGTH = 20000;
+
+export type SharedBuild = {
+  name: string;
+  items: Item[]; // fit into the slots by placeItems
+  targets: Targets;
+  scaling?: ScalingTable; // the sharer's table, when not the default
+  derived?: DerivedStatDef[]; // the sharer's derived stats, if any
+};
+
+type BuffRef = number | string;
+
+const CATALOG_INDEX = new Map(BUFF_CATALOG.map((d, i) => [d.name, i]));
+
+function packBuff(name: string): BuffRef {
+  return CATALOG_INDEX.get(name) ?? name;
+}
+
+function unpackBuff(ref: unknown): string {
+  if (typeof ref === "number" && BUFF_CATALOG[ref]) {
+    return BUFF_CATALOG[ref].name;
+  }
+  if (typeof ref === "string" && ref.trim()) return normalizeBuffName(ref);
+  throw new Error("Unknown buff in link");
+}
+
+// -----------------------------
+// base64url (UTF-8)
+// -----------------------------
+
+function toBase64Url(text: string) {
+  let bin = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    bin += String.fromCharCode(byte);
+  }
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(data: string) {
+  const b64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+// -----------------------------
+// Encode / decode
+// -----------------------------
+
+export function encodeSharedBuild(build: SharedBuild): string {
+  const placed = placeItems(build.items);
+  const items = SLOTS.flatMap((slot) => {
+    const it = build.items.find((x) => x.id === placed[slot]);
+    if (!it) return [];
+    const row: unknown[] = [
+      SLOTS.indexOf(slot),
+      it.name,
+      it.buffs.map((b) => [packBuff(b.name), b.value, b.recommended ? 1 : 0]),
+    ];
+    const scaled =
+      it.rarity !== undefined ||
+      it.level !== undefined ||
+      it.rank !== undefined;
+    if (it.set || scaled) row.push(it.set ?? null);
+    if (scaled) {
+      row.push([it.rarity ?? null, it.level ?? null, it.rank ?? null]);
+    }
+    return [row];
+  });
+  const targets = Object.entries(build.targets).map(([name, spec]) => {
+    const row: (BuffRef | number | null)[] = [packBuff(name), spec.min];
+    if (spec.max !== undefined || spec.weight !== undefined) {
+      row.push(spec.max ?? null);
+    }
+    if (spec.weight !== undefined) row.push(spec.weight);
+    return row;
+  });
+  const payload: unknown[] = [SHARE_VERSION, build.name, items, targets];
+  const scaling = build.scaling;
+  const derived = build.derived ?? [];
+  if (scaling && !sameScaling(scaling, DEFAULT_SCALING)) {
+    payload.push([
+      RARITIES.map((r) => scaling.rarity[r.id]),
+      scaling.levelStep,
+      scaling.rankStep,
+    ]);
+  } else if (derived.length > 0) {
+    payload.push(null);
+  }
+  if (derived.length > 0) payload.push(derived.map((d) => [d.name, d.expr]));
+  return toBase64Url(JSON.stringify(payload));
+}
+
+const isNum = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+const isIntIn = (v: unknown, min: number, max: number): v is number =>
+  Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+/** Throws with a readable message when the payload is damaged. */
+export function decodeSharedBuild(payload: string): SharedBuild {
+  if (payload.length > MAX_SHARE_LENGTH) {
+    throw new Error("The link is too long to be a shared build.");
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(payload));
+  } catch {
+    throw new Error("The link is damaged or incomplete.");
+  }
+  if (!Array.isArray(data) || data[0] !== SHARE_VERSION) {
+    throw new Error("This link was made by an unsupported version.");
+  }
+  const [, name, rawItems, rawTargets, rawScaling, rawDerived] = data;
+  if (!Array.isArray(rawItems) || !Array.isArray(rawTargets)) {
+    throw new Error("The link is damaged or incomplete.");
+  }
+
+  const items: Item[] = [];
+  const usedSlots = new Set<number>();
+  for (const raw of rawItems) {
+    if (!Array.isArray(raw) || !Array.isArray(raw[2])) {
+      throw new Error("The link has a malformed item.");
+    }
+    const [slotIndex, itemName, rawBuffs, set, scaling] = raw;
+    const slot = SLOTS[slotIndex];
+    if (!slot || usedSlots.has(slotIndex) || typeof itemName !== "string") {
+      throw new Error("The link has a malformed item.");
+    }
+    usedSlots.add(slotIndex);
+    const buffs: BuffLine[] = rawBuffs.map((b: unknown) => {
+      if (!Array.isArray(b) || !isNum(b[1])) {
+        throw new Error(`"${itemName}" has a malformed buff line.`);
+      }
+      return {
+        id: uid("b"),
+        name: unpackBuff(b[0]),
+        value: b[1],
+        recommended: b[2] === 1,
+      };
+    });
+    const item: Item = {
+      id: uid("item"),
+      name: itemName,
+      slot: slotTypeOf(slot),
+      buffs,
+    };
+    if (typeof set === "string" && set) item.set = set;
+    if (Array.isArray(scaling)) {
+      const [rarity, level, rank] = scaling;
+      if (RARITIES.some((r) => r.id === rarity)) item.rarity = rarity as Rarity;
+      if (isIntIn(level, 1, MAX_LEVEL)) item.level = level;
+      if (isIntIn(rank, 0, MAX_RANK)) item.rank = rank;
+    }
+    items.push(item);
+  }
+
+  const targets: Targets = {};
+  for (const raw of rawTargets) {
+    if (!Array.isArray(raw) || !isNum(raw[1])) {
+      throw new Error("The link has a malformed target.");
+    }
+    const spec: TargetSpec = { min: raw[1] };
+    if (isNum(raw[2])) spec.max = raw[2];
+    if (isNum(raw[3])) spec.weight = raw[3];
+    targets[unpackBuff(raw[0])] = spec;
+  }
+
+  const build: SharedBuild = {
+    name: typeof name === "string" && name.trim() ? name : "Shared build",
+    items,
+    targets,
+  };
+  if (rawScaling !== undefined && rawScaling !== null) {
+    if (!Array.isArray(rawScaling) || !Array.isArray(rawScaling[0])) {
+      throw new Error("The link has a malformed scaling table.");
+    }
+    const [multipliers, levelStep, rankStep] = rawScaling;
+    build.scaling = sanitizeScaling({
+      rarity: Object.fromEntries(
+        RARITIES.map((r, i) => [r.id, multipliers[i]])
+      ),
+      levelStep,
+      rankStep,
+    });
+  }
+  if (rawDerived !== undefined) {
+    if (!Array.isArray(rawDerived)) {
+      throw new Error("The link has a malformed derived stat.");
+    }
+    // Formulas are only parsed when evaluated; errors show there, as in the
+    // editor, so only the shape and length are checked here.
+    build.derived = rawDerived.map((raw: unknown) => {
+      if (
+        !Array.isArray(raw) ||
+        typeof raw[0] !== "string" ||
+        typeof raw[1] !== "string" ||
+        raw[1].length > MAX_EXPR_LENGTH
+      ) {
+        throw new Error("The link has a malformed derived stat.");
+      }
+      return { name: raw[0], expr: raw[1] };
+    });
+  }
+  return build;
+}
+
+/** Full link to the current page with the build in the fragment. */
+export function shareUrl(build: SharedBuild, base: string) {
+  return `${base.split("#")[0]}#${SHARE_PARAM}=${encodeSharedBuild(build)}`;
+}
+
+/** Payload from a location hash, or null if the hash holds no build. */
+export function sharePayloadFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(SHARE_PARAM);
+}
@@ -0,0 +1,30 @@
+import { Item, SlotType } from "./model";
+
+/** Fixtures shared by the Jest tests. */
+
+/** [buff name, value, recommended?] */
+export type LineSpec = [string, number, boolean?];
+
+/**
+ * An item named after its id, with one buff line per spec (line ids are
+ * `${id}.0`, `${id}.1`, ...); `extra` sets any other field.
+ */
+export function item(
+  id: string,
+  slot: SlotType,
+  buffs: LineSpec[],
+  extra: Partial<Item> = {}
+): Item {
+  return {
+    id,
+    name: id,
+    slot,
+    buffs: buffs.map(([name, value, recommended], i) => ({
+      id: `${id}.${i}`,
+      name,
+      value,
+      recommended: !!recommended,
+    })),
+    ...extra,
+  };
+}
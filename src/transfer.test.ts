@@ -0,0 +1,108 @@
+import { describe, expect, it } from "@jest/globals";
+import { Character, Equipped, Item, emptyEquipped } from "./model";
+import { DEFAULT_SCORING } from "./optimizer";
+import { PlannerState } from "./persistence";
+import { item } from "./testUtils";
+import { exportState, parseImport, planImport } from "./transfer";
+
+function state(
+  items: Item[],
+  equipped: Partial<Equipped>,
+  loadoutId = "l1"
+): PlannerState {
+  const character: Character = {
+    id: "c1",
+    name: "Main",
+    activeLoadoutId: loadoutId,
+    loadouts: [
+      {
+        id: loadoutId,
+        name: "PvE",
+        equipped: { ...emptyEquipped(), ...equipped },
+        targets: {},
+        locked: {},
+      },
+    ],
+  };
+  return { items, characters: [character] };
+}
+
+describe("planImport", () => {
+  it("round-trips an export through parseImport", () => {
+    const st = state([item("hat", "Helmet", [["Attack", 5]])], {
+      Helmet: "hat",
+    });
+    expect(parseImport(exportState(st))).toEqual({ state: st, issues: [] });
+  });
+
+  it("unequips existing loadouts whose item was overwritten with another slot type", () => {
+    const current = state([item("x", "Helmet", [["Attack", 5]])], {
+      Helmet: "x",
+    });
+    const incoming = state([item("x", "Vest", [["Attack", 5]])], {}, "l2");
+    const plan = planImport(current, incoming, "merge", "overwrite");
+    const [main] = plan.state.characters;
+    expect(main.loadouts[0].equipped.Helmet).toBeNull();
+    expect(plan.summary.slotsUnequipped).toEqual(["Main / PvE: Helmet"]);
+  });
+
+  it("does not let imported loadouts equip the existing item behind a skipped id", () => {
+    const current = state([item("x", "Helmet", [["Attack", 5]])], {}, "l1");
+    const incoming = state(
+      [item("x", "Helmet", [["Attack", 50]])],
+      { Helmet: "x" },
+      "l2"
+    );
+    const plan = planImport(current, incoming, "merge", "skip");
+    const loadouts = plan.state.characters[0].loadouts;
+    expect(loadouts.map((l) => l.equipped.Helmet)).toEqual([null, null]);
+    expect(plan.summary.itemsSkipped).toEqual(["x"]);
+    expect(plan.summary.slotsUnequipped).toEqual(["Main / PvE: Helmet"]);
+  });
+
+  it("remaps imported loadouts to kept-both copies", () => {
+    const current = state([item("x", "Helmet", [["Attack", 5]])], {}, "l1");
+    const incoming = state(
+      [item("x", "Helmet", [["Attack", 50]])],
+      { Helmet: "x" },
+      "l2"
+    );
+    const plan = planImport(current, incoming, "merge", "keep-both");
+    const copy = plan.state.items[1];
+    expect(copy.id).not.toBe("x");
+    expect(plan.state.characters[0].loadouts[1].equipped.Helmet).toBe(copy.id);
+    expect(plan.summary.slotsUnequipped).toEqual([]);
+  });
+
+  it("brings the file's derived stats along when merging, keeping ours", () => {
+    const current = {
+      ...state([], {}, "l1"),
+      scoring: {
+        ...DEFAULT_SCORING,
+        deficitWeight: 5,
+        derived: [{ name: "dmg", expr: "Attack" }],
+      },
+    };
+    const incoming = {
+      ...state([], {}, "l2"),
+      scoring: {
+        ...DEFAULT_SCORING,
+        derived: [
+          { name: "dmg", expr: "Attack * 2" },
+          { name: "burst", expr: "dmg * CritRate" },
+        ],
+      },
+    };
+    const plan = planImport(current, incoming, "merge", "keep-both");
+    expect(plan.state.scoring?.derived).toEqual([
+      { name: "dmg", expr: "Attack" },
+      { name: "burst", expr: "dmg * CritRate" },
+    ]);
+    expect(plan.state.scoring?.deficitWeight).toBe(5);
+    expect(plan.summary.derivedAdded).toEqual(["burst"]);
+    expect(plan.summary.derivedConflicts).toEqual(["dmg"]);
+
+    const same = planImport(current, current, "merge", "keep-both");
+    expect(same.state.scoring).toBe(current.scoring);
+  });
+});
@@ -0,0 +1,286 @@
+import { mergeDerived } from "./formulas";
+import { Character, Loadout, SLOTS, sameItem, uid } from "./model";
+import { DEFAULT_SCORING } from "./optimizer";
+import {
+  PlannerState,
+  SCHEMA_VERSION,
+  parseVersioned,
+  validateEquipped,
+} from "./persistence";
+
+/**
+ * JSON export/import of the whole planner state.
+ * Exports use the same versioned envelope as localStorage, so an exported file
+ * goes through the same migrations and validators when imported.
+ */
+
+export const EXPORT_FORMAT = "wwm-build-planner";
+
+export type ImportMode = "merge" | "replace";
+
+/** What to do when an imported record has an existing id but different content. */
+export type CollisionPolicy = "keep-both" | "overwrite" | "skip";
+
+export type ImportSummary = {
+  itemsAdded: string[];
+  itemsChanged: string[]; // overwritten existing items
+  itemsRenamed: string[]; // kept both; the imported copy got a new id
+  itemsSkipped: string[];
+  itemsRemoved: string[]; // replace mode only
+  loadoutsAdded: string[]; // "Character / Loadout"
+  loadoutsChanged: string[];
+  loadoutsSkipped: string[];
+  loadoutsRemoved: string[];
+  slotsUnequipped: string[]; // "Character / Loadout: Slot, …" no longer fitting after a merge
+  derivedAdded: string[]; // merge: derived stats the file defines and we did not
+  derivedConflicts: string[]; // merge: defined differently here; ours is kept
+  issues: string[]; // validation problems in the file
+};
+
+export type ImportPlan = {
+  mode: ImportMode;
+  state: PlannerState; // result after applying
+  summary: ImportSummary;
+};
+
+// -----------------------------
+// Export
+// -----------------------------
+
+export function exportState(state: PlannerState): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      data: state,
+    },
+    null,
+    2
+  );
+}
+
+export function exportFileName(date = new Date()) {
+  return `wwm-build-planner-${date.toISOString().slice(0, 10)}.json`;
+}
+
+// -----------------------------
+// Import
+// -----------------------------
+
+function sameLoadout(a: Loadout, b: Loadout) {
+  return (
+    a.name === b.name &&
+    SLOTS.every(
+      (s) => a.equipped[s] === b.equipped[s] && !!a.locked[s] === !!b.locked[s]
+    ) &&
+    JSON.stringify(Object.entries(a.targets).sort()) ===
+      JSON.stringify(Object.entries(b.targets).sort())
+  );
+}
+
+function emptySummary(issues: string[]): ImportSummary {
+  return {
+    itemsAdded: [],
+    itemsChanged: [],
+    itemsRenamed: [],
+    itemsSkipped: [],
+    itemsRemoved: [],
+    loadoutsAdded: [],
+    loadoutsChanged: [],
+    loadoutsSkipped: [],
+    loadoutsRemoved: [],
+    slotsUnequipped: [],
+    derivedAdded: [],
+    derivedConflicts: [],
+    issues,
+  };
+}
+
+const loadoutLabel = (c: Character, l: Loadout) => `${c.name} / ${l.name}`;
+
+/**
+ * Parses an exported file. Throws with a readable message when the file has
+ * no usable data; recoverable problems come back as issues.
+ */
+export function parseImport(text: string): {
+  state: PlannerState;
+  issues: string[];
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  const res = parseVersioned(parsed);
+  if (!res.state) {
+    throw new Error(`File has no usable data: ${res.issues.join("; ")}`);
+  }
+  return { state: res.state, issues: res.issues };
+}
+
+export function planImport(
+  current: PlannerState,
+  incoming: PlannerState,
+  mode: ImportMode,
+  collisions: CollisionPolicy,
+  issues: string[] = []
+): ImportPlan {
+  const summary = emptySummary(issues);
+
+  if (mode === "replace") {
+    const incomingItems = new Set(incoming.items.map((x) => x.id));
+    const incomingLoadouts = new Set(
+      incoming.characters.flatMap((c) => c.loadouts.map((l) => l.id))
+    );
+    const currentItems = new Map(current.items.map((x) => [x.id, x]));
+    for (const it of incoming.items) {
+      const mine = currentItems.get(it.id);
+      if (!mine) summary.itemsAdded.push(it.name);
+      else if (!sameItem(mine, it)) summary.itemsChanged.push(it.name);
+    }
+    summary.itemsRemoved = current.items
+      .filter((x) => !incomingItems.has(x.id))
+      .map((x) => x.name);
+    const currentLoadouts = new Set(
+      current.characters.flatMap((c) => c.loadouts.map((l) => l.id))
+    );
+    summary.loadoutsAdded = incoming.characters.flatMap((c) =>
+      c.loadouts
+        .filter((l) => !currentLoadouts.has(l.id))
+        .map((l) => loadoutLabel(c, l))
+    );
+    summary.loadoutsRemoved = current.characters.flatMap((c) =>
+      c.loadouts
+        .filter((l) => !incomingLoadouts.has(l.id))
+        .map((l) => loadoutLabel(c, l))
+    );
+    return { mode, state: incoming, summary };
+  }
+
+  // Items: new ids are added; same id + same content is a no-op; a collision
+  // follows the policy. Kept-both items get a fresh id, and references from
+  // imported loadouts are remapped to it.
+  const items = [...current.items];
+  const indexById = new Map(items.map((x, i) => [x.id, i]));
+  const itemIdMap = new Map<string, string>();
+  const skippedIds = new Set<string>();
+  for (const it of incoming.items) {
+    const at = indexById.get(it.id);
+    if (at === undefined) {
+      indexById.set(it.id, items.length);
+      items.push(it);
+      summary.itemsAdded.push(it.name);
+    } else if (sameItem(items[at], it)) {
+      continue;
+    } else if (collisions === "overwrite") {
+      items[at] = it;
+      summary.itemsChanged.push(it.name);
+    } else if (collisions === "keep-both") {
+      const id = uid("item");
+      itemIdMap.set(it.id, id);
+      items.push({ ...it, id });
+      summary.itemsRenamed.push(it.name);
+    } else {
+      skippedIds.add(it.id);
+      summary.itemsSkipped.push(it.name);
+    }
+  }
+
+  const remap = (l: Loadout): Loadout => {
+    const equipped = { ...l.equipped };
+    for (const s of SLOTS) {
+      const id = equipped[s];
+      if (id && itemIdMap.has(id)) equipped[s] = itemIdMap.get(id)!;
+    }
+    return { ...l, equipped };
+  };
+
+  // Characters match by id, then their loadouts by id, with the same rules.
+  const imported = new Set<Loadout>();
+  const characters = current.characters.map((c) => ({
+    ...c,
+    loadouts: [...c.loadouts],
+  }));
+  for (const inc of incoming.characters) {
+    const cur = characters.find((c) => c.id === inc.id);
+    if (!cur) {
+      const loadouts = inc.loadouts.map(remap);
+      characters.push({ ...inc, loadouts });
+      for (const l of loadouts) {
+        imported.add(l);
+        summary.loadoutsAdded.push(loadoutLabel(inc, l));
+      }
+      continue;
+    }
+    for (const raw of inc.loadouts) {
+      const l = remap(raw);
+      const at = cur.loadouts.findIndex((x) => x.id === l.id);
+      if (at < 0) {
+        cur.loadouts.push(l);
+        imported.add(l);
+        summary.loadoutsAdded.push(loadoutLabel(cur, l));
+      } else if (sameLoadout(cur.loadouts[at], l)) {
+        continue;
+      } else if (collisions === "overwrite") {
+        cur.loadouts[at] = l;
+        imported.add(l);
+        summary.loadoutsChanged.push(loadoutLabel(cur, l));
+      } else if (collisions === "keep-both") {
+        const copy = { ...l, id: uid("lo"), name: `${l.name} (imported)` };
+        cur.loadouts.push(copy);
+        imported.add(copy);
+        summary.loadoutsAdded.push(loadoutLabel(cur, copy));
+      } else {
+        summary.loadoutsSkipped.push(loadoutLabel(cur, l));
+      }
+    }
+  }
+
+  // Overwritten items may now be of another slot type, and imported loadouts
+  // must not pick up the existing item behind a skipped id, so every loadout
+  // is checked against the merged items.
+  const byId = new Map(items.map((x) => [x.id, x]));
+  for (const c of characters) {
+    c.loadouts = c.loadouts.map((l) => {
+      const refs = imported.has(l)
+        ? Object.fromEntries(
+            SLOTS.map((s) => {
+              const id = l.equipped[s];
+              return [s, id && skippedIds.has(id) ? null : id];
+            })
+          )
+        : l.equipped;
+      const equipped = validateEquipped(refs, byId, "equipped", []);
+      const dropped = SLOTS.filter((s) => equipped[s] !== l.equipped[s]);
+      if (dropped.length === 0) return l;
+      summary.slotsUnequipped.push(
+        `${loadoutLabel(c, l)}: ${dropped.join(", ")}`
+      );
+      return { ...l, equipped };
+    });
+  }
+
+  // Imported targets may name the file's derived stats, so its definitions
+  // come along; scoring weights stay ours.
+  let scoring = current.scoring;
+  const derived = mergeDerived(
+    current.scoring?.derived,
+    incoming.scoring?.derived
+  );
+  if (derived.added.length > 0) {
+    scoring = {
+      ...(current.scoring ?? DEFAULT_SCORING),
+      derived: derived.defs,
+    };
+  }
+  summary.derivedAdded = derived.added;
+  summary.derivedConflicts = derived.conflicts;
+
+  return {
+    mode,
+    state: { ...current, items, characters, scoring },
+    summary,
+  };
+}